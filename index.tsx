@@ -1,12 +1,16 @@
 
-import React, { useState, useRef, useEffect, createContext, useContext, useCallback } from 'react';
+import React, { useState, useRef, useEffect, createContext, useContext, useCallback, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
 import { GoogleGenAI } from "@google/genai";
 import { 
   Play, Pause, PenTool, MessageSquare, Share2, UploadCloud, 
   CheckCircle, X, ChevronRight, LayoutDashboard, Video, 
   MoreVertical, ArrowLeft, Sparkles, Clock, Trash2, Download, 
-  LogOut, FileVideo, User as UserIcon, Loader2, Link as LinkIcon
+  LogOut, FileVideo, User as UserIcon, Loader2, Link as LinkIcon,
+  Copy, RefreshCw, Lock, Ban, Reply, Pencil,
+  MoveUpRight, Square, Circle, Type, Eraser, Undo2, Redo2,
+  StepBack, StepForward, Repeat, Keyboard, Columns2, Layers, SplitSquareHorizontal,
+  AlertTriangle, FileText, Bell, Radio, Crown, type LucideIcon
 } from 'lucide-react';
 
 /**
@@ -16,6 +20,7 @@ import {
  * To deploy this for free without a Credit Card:
  * 1. Create a Firebase Project (console.firebase.google.com).
  * 2. Enable "Authentication" -> "Sign-in method" -> Turn on "Anonymous".
+ *    (Email accounts are still kept in the browser; see AuthService.)
  * 3. Enable "Firestore" -> Start in Test Mode.
  * 4. Enable "Storage" -> Start in Test Mode. (This is the Spark Plan - Free).
  * 
@@ -24,81 +29,867 @@ import {
  * ============================================================================
  */
 
-const AI_API_KEY = process.env.API_KEY || '';
 
 // --- Types & Schema ---------------------------------------------------------
 
-interface Point { x: number; y: number } // Normalized 0.0 to 1.0
+interface Point { 
+  x: number; // Normalized 0.0 to 1.0
+  y: number; 
+  pressure?: number; // 0.0 to 1.0, only recorded for pen input
+}
+
+type StrokeTool = 'pen' | 'arrow' | 'rect' | 'ellipse' | 'text';
+
 interface Stroke { 
+  tool?: StrokeTool; // Omitted on older data, which is always a freehand pen stroke
   color: string; 
   width: number; 
-  points: Point[] 
+  points: Point[]; // Pen: the full path. Shapes: [start, end]. Text: [top-left anchor]
+  text?: string; // Label content when tool === 'text'
+  // Set by the v2 migration on strokes that were normalised to the player
+  // container instead of the video picture; see toVideoSpace.
+  legacyContainer?: { width: number; height: number };
+}
+
+interface CommentRevision {
+  text: string;
+  createdAt: number; // When this version was written
 }
 
 interface Comment {
   id: string;
-  authorId: string;
+  parentId?: string; // Set on replies. Threads are one level deep.
+  versionId?: string; // The ProjectVersion this note is about
+  carriedFromId?: string; // Source comment when carried forward from an earlier version
+  authorId: string; // User.uid of an editor or a named guest
   authorName: string;
+  authorColor?: string; // Avatar colour when the comment was written
   text: string;
-  timestamp: number; // Video time in seconds
+  timestamp: number; // Video time in seconds (replies share their parent's)
+  endTimestamp?: number; // Out point for range comments; the in point is `timestamp`
   resolved: boolean;
   drawingData?: Stroke[]; // Vector whiteboard data
   createdAt: number;
+  editedAt?: number;
+  editHistory?: CommentRevision[]; // Previous versions, oldest first
+  deletedAt?: number; // Soft delete: hidden, but kept so threads stay intact
+  updatedAt?: number; // Last save after creation; lets polling spot changes
+}
+
+// What checks a password guess without revealing a usable secret: the key
+// derived from the password is the proof, and only its SHA-256 is kept.
+interface PasswordVerifier {
+  salt: string;
+  iterations: number; // PBKDF2-SHA256
+  verifier: string; // SHA-256 of the derived key
+}
+
+interface ShareSettings {
+  expiresAt?: number; // Link stops working after this (epoch ms)
+  // Link visitors can read it. The verifier is empty for passwords set before
+  // v8, which must be set again.
+  password?: PasswordVerifier;
+  revoked?: boolean;
+  role?: 'commenter' | 'viewer'; // What link visitors may do; 'commenter' when unset
+}
+
+type ProjectRole = 'owner' | 'collaborator' | 'commenter' | 'viewer';
+
+interface ProjectMember {
+  uid: string;
+  role: ProjectRole;
+  displayName?: string; // As it was when they joined
+  addedAt: number;
+}
+
+// Single-use link that adds whoever opens it as a member with `role`. Kept
+// out of the Project document, which share-link guests can read.
+interface ProjectInvite {
+  token: string;
+  role: ProjectRole;
+  createdBy: string;
+  createdAt: number;
+}
+
+type ProcessingStatus = 'processing' | 'ready' | 'error';
+
+// A grid of evenly spaced frames for hover scrubbing. Frame i sits at
+// column i % columns, row floor(i / columns) and shows time (i + 0.5) * interval.
+interface SpriteSheet {
+  url: string; // Stored JPEG, see StorageService.store
+  columns: number;
+  count: number;
+  interval: number; // Seconds between frames
+}
+
+type ReviewStatus = 'in_review' | 'changes_requested' | 'approved' | 'archived';
+
+// One step in a version's review. Kept forever: it is the approval record.
+interface ReviewDecision {
+  status: ReviewStatus;
+  byId: string;
+  byName: string;
+  at: number;
+  note?: string;
+  openComments: number; // Unresolved threads at the time, so approvals over open feedback show
+}
+
+interface ProjectVersion {
+  id: string; // `v${number}`, unique within the project
+  number: number; // 1-based, shown as v1, v2, ...
+  videoUrl: string;
+  duration: number;
+  createdAt: number;
+  // Filled in by MediaService once the file has been read. Versions saved
+  // before processing existed have no status and count as ready.
+  status?: ProcessingStatus;
+  error?: string; // Why processing failed
+  width?: number;
+  height?: number;
+  frameRate?: number; // Detected from the container, snapped to FRAME_RATES when close
+  codec?: string; // RFC 6381 codec string where known (e.g. avc1.640028), else the sample entry type
+  // Stored files rather than inline data, to keep the document small. Versions
+  // processed before v7 may still have data URLs here.
+  thumbnailUrl?: string; // JPEG
+  sprites?: SpriteSheet;
+  waveformUrl?: string; // JSON array of audio peaks (0-1) in WAVEFORM_BUCKETS equal slices of the duration
+  review?: ReviewDecision[]; // Oldest first; no entries means 'in_review'
 }
 
 interface Project {
   id: string;
   publicId: string; // For shareable links
-  editorId: string;
+  share?: ShareSettings;
+  editorId: string; // Creator. Access is decided by `members`
+  members: ProjectMember[];
   title: string;
-  videoUrl: string;
-  thumbnailUrl?: string;
-  status: 'processing' | 'ready';
-  duration: number;
+  versions: ProjectVersion[]; // Oldest first; the last entry is the current cut
+  frameRate?: number; // Frames per second; DEFAULT_FRAME_RATE when unset
+  thumbnailUrl?: string; // Poster of the latest version
+  status: ProcessingStatus; // Mirrors the latest version
+  // Random live session room, made on first use. Knowing it is what lets you
+  // into the relay, so it changes whenever the share link is revoked or renewed.
+  liveRoom?: string;
+  createdAt: number;
+  updatedAt?: number; // Last save after creation; lets polling spot changes
+}
+
+type ActivityType =
+  | 'comment_added' | 'comment_resolved' | 'comment_reopened'
+  | 'version_uploaded' | 'version_approved' | 'changes_requested';
+
+// One entry in a project's activity log. Append-only; feeds notifications and digests.
+interface ActivityEvent {
+  id: string;
+  projectId: string;
+  type: ActivityType;
+  actorId: string;
+  actorName: string;
+  versionId?: string;
+  commentId?: string;
+  text?: string; // Comment excerpt or decision note
   createdAt: number;
 }
 
+// An editor session or a named guest. Guests have uids starting with 'guest_'.
 interface User {
   uid: string;
   displayName: string;
-  isAnonymous: boolean;
+  isAnonymous: boolean; // False once upgraded to an email/password account
+  email?: string;
+  avatarColor: string;
 }
 
-// --- Mock Data Store (Simulating Firestore) ---------------------------------
+// --- Seed Data (Demo Project) -----------------------------------------------
+
+const DEMO_PROJECT_ID = 'proj_1';
 
-const MOCK_DB = {
-  projects: {
-    'proj_1': {
-      id: 'proj_1',
-      publicId: 'review-demo',
-      editorId: 'anon_editor',
-      title: 'Demo Video (Big Buck Bunny)',
+const SEED_DATA = {
+  project: {
+    id: DEMO_PROJECT_ID,
+    publicId: 'review-demo',
+    editorId: 'anon_editor',
+    members: [{ uid: 'anon_editor', role: 'owner', displayName: 'Demo Editor', addedAt: Date.now() - 100000 }],
+    share: { role: 'commenter' },
+    title: 'Demo Video (Big Buck Bunny)',
+    versions: [{
+      id: 'v1',
+      number: 1,
       videoUrl: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4',
-      status: 'ready',
       duration: 596,
       createdAt: Date.now() - 10000000,
+    }],
+    status: 'ready',
+    createdAt: Date.now() - 10000000,
+  } as Project,
+  comments: [
+    {
+      id: 'c1',
+      authorId: 'client_guest',
+      authorName: 'Client A',
+      text: 'Can we make the grass greener here?',
+      versionId: 'v1',
+      timestamp: 5.2,
+      resolved: false,
+      createdAt: Date.now() - 50000,
+      drawingData: [
+        { color: '#ef4444', width: 4, points: [{x:0.2, y:0.4}, {x:0.3, y:0.4}, {x:0.3, y:0.5}] }
+      ]
     }
-  } as Record<string, Project>,
-  comments: {
-    'proj_1': [
-      {
-        id: 'c1',
-        authorId: 'client_guest',
-        authorName: 'Client A',
-        text: 'Can we make the grass greener here?',
-        timestamp: 5.2,
-        resolved: false,
-        createdAt: Date.now() - 50000,
-        drawingData: [
-          { color: '#ef4444', width: 4, points: [{x:0.2, y:0.4}, {x:0.3, y:0.4}, {x:0.3, y:0.5}] }
-        ]
+  ] as Comment[]
+};
+
+// --- Persistence Layer ------------------------------------------------------
+//
+// DatabaseService talks to a StorageAdapter. IndexedDB is the default so reviews
+// survive a reload with zero setup; set DB_BACKEND=firestore to use the
+// Firestore REST API instead (point FIRESTORE_EMULATOR_HOST at the local
+// emulator during development).
+
+interface StorageAdapter {
+  listProjects: () => Promise<Project[]>;
+  getProject: (id: string) => Promise<Project | null>;
+  findProjectByPublicId: (publicId: string) => Promise<Project | null>;
+  putProject: (project: Project) => Promise<void>;
+  listComments: (projectId: string) => Promise<Comment[]>;
+  getComment: (projectId: string, commentId: string) => Promise<Comment | null>;
+  putComment: (projectId: string, comment: Comment) => Promise<void>;
+  listActivity: (projectId: string) => Promise<ActivityEvent[]>;
+  putActivity: (event: ActivityEvent) => Promise<void>;
+  listInvites: (projectId: string) => Promise<ProjectInvite[]>;
+  getInvite: (projectId: string, token: string) => Promise<ProjectInvite | null>;
+  putInvite: (projectId: string, invite: ProjectInvite) => Promise<void>;
+  deleteInvite: (projectId: string, token: string) => Promise<void>;
+}
+
+// Bump SCHEMA_VERSION whenever Project or Comment change shape and append a
+// record migration for the new version. Never edit a migration that shipped.
+const SCHEMA_VERSION = 9;
+
+// A stored row as read back, before anything about its shape is known.
+type StoredRecord = Record<string, unknown>;
+
+type RecordMigration = (record: StoredRecord) => StoredRecord;
+
+const isRecord = (value: unknown): value is StoredRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The records in a stored list, skipping anything malformed.
+const recordList = (value: unknown) => Array.isArray(value) ? value.filter(isRecord) : [];
+
+const PROJECT_MIGRATIONS: Record<number, RecordMigration> = {
+  // v3: a project holds a list of versions instead of a single video.
+  3: ({ videoUrl, duration, ...p }) => ({
+    ...p,
+    versions: [{ id: 'v1', number: 1, videoUrl, duration, createdAt: p.createdAt }],
+  }),
+  // v4: the creator becomes the sole owner.
+  4: (p) => ({ ...p, members: [{ uid: p.editorId, role: 'owner', addedAt: p.createdAt }] }),
+  // v6: invites leave the project for their own store. Their tokens were
+  // guessable, so they are dropped rather than moved; owners re-issue them.
+  6: ({ invites, ...p }) => p,
+  // v7: waveforms move out of the document into stored files. Inline ones are
+  // dropped; they are decoded again from the video when next viewed.
+  7: (p) => ({ ...p, versions: recordList(p.versions).map(({ waveform, ...v }) => v) }),
+  // v8: share passwords get a salted, slow hash. The old unsalted hash was
+  // itself enough to unlock the link, so it is dropped and the link stays
+  // locked until the owner sets the password again.
+  8: ({ share, ...p }) => {
+    if (!isRecord(share)) return p;
+    if (!share.passwordHash) return { ...p, share };
+    const { passwordHash, ...rest } = share;
+    return { ...p, share: { ...rest, password: { salt: '', iterations: 0, verifier: '' } } };
+  },
+};
+const LEGACY_EDITOR_ID = 'legacy_editor';
+const LEGACY_GUEST_ID = 'legacy_guest';
+const LEGACY_AUTHOR_IDS: Record<string, string> = { user_1: LEGACY_EDITOR_ID, guest: LEGACY_GUEST_ID };
+
+// Legacy editor comments belong to the project's creator. Legacy guest
+// comments can't be traced to anyone, so only moderators can touch them.
+const isCommentAuthor = (project: Project, comment: Comment, uid: string) =>
+  comment.authorId === uid || (comment.authorId === LEGACY_EDITOR_ID && project.editorId === uid);
+
+// Player container size the v1 layout had in a 1920x1080 window (minus the
+// 384px sidebar, 56px header and ~94px transport bar). Used to re-map old
+// drawings, whose true container size was never stored.
+const LEGACY_PLAYER_SIZE = { width: 1536, height: 930 };
+
+const COMMENT_MIGRATIONS: Record<number, RecordMigration> = {
+  // v2: drawings are normalised to the video content rect. Tag older strokes
+  // so they can be re-mapped once the video's dimensions are known.
+  2: (c) => Array.isArray(c.drawingData) ? {
+    ...c,
+    drawingData: recordList(c.drawingData).map(s => ({ ...s, legacyContainer: LEGACY_PLAYER_SIZE })),
+  } : c,
+  // v3: existing comments belong to the project's first version.
+  3: (c) => ({ ...c, versionId: 'v1' }),
+  // v9: comments from before user accounts were posted as 'user_1' by the
+  // project's creator or as 'guest' by any link visitor. See isCommentAuthor.
+  9: (c) => typeof c.authorId === 'string' && Object.hasOwn(LEGACY_AUTHOR_IDS, c.authorId)
+    ? { ...c, authorId: LEGACY_AUTHOR_IDS[c.authorId] }
+    : c,
+};
+
+// The activity log arrived in v5 and has not changed shape since.
+const ACTIVITY_MIGRATIONS: Record<number, RecordMigration> = {};
+
+// Invites got their own store in v6 and have not changed shape since.
+const INVITE_MIGRATIONS: Record<number, RecordMigration> = {};
+
+// Stored records carry the schema version they were written with, so old rows
+// can be upgraded on read (Firestore) or during the version change (IndexedDB).
+const upgradeRecord = <T,>(record: StoredRecord, migrations: Record<number, RecordMigration>): T => {
+  let { schemaVersion: stored, ...data } = record;
+  // Version 0 predates schema tracking and already matches the v1 shape.
+  let schemaVersion = typeof stored === 'number' && stored > 0 ? stored : 1;
+  while (schemaVersion < SCHEMA_VERSION) {
+    schemaVersion++;
+    const migrate = migrations[schemaVersion];
+    if (migrate) data = migrate(data);
+  }
+  return data as T;
+};
+
+const stampRecord = <T extends object>(record: T) => ({ ...record, schemaVersion: SCHEMA_VERSION });
+
+// -- IndexedDB adapter --
+
+const IDB_NAME = 'creator-feedback';
+
+const idbRequest = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Structural changes (object stores, indexes) per IndexedDB version.
+const IDB_STORE_MIGRATIONS: Record<number, (db: IDBDatabase) => void> = {
+  1: (db) => {
+    const projects = db.createObjectStore('projects', { keyPath: 'id' });
+    projects.createIndex('publicId', 'publicId', { unique: true });
+    projects.createIndex('editorId', 'editorId');
+    const comments = db.createObjectStore('comments', { keyPath: 'id' });
+    comments.createIndex('projectId', 'projectId');
+  },
+  5: (db) => {
+    const activity = db.createObjectStore('activity', { keyPath: 'id' });
+    activity.createIndex('projectId', 'projectId');
+  },
+  6: (db) => {
+    const invites = db.createObjectStore('invites', { keyPath: 'token' });
+    invites.createIndex('projectId', 'projectId');
+  },
+};
+
+const upgradeStore = (store: IDBObjectStore, migrations: Record<number, RecordMigration>) => {
+  const cursorRequest = store.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const { projectId } = cursor.value;
+    const upgraded = upgradeRecord<object>(cursor.value, migrations);
+    cursor.update(stampRecord(projectId ? { ...upgraded, projectId } : upgraded));
+    cursor.continue();
+  };
+};
+
+const openIndexedDB = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(IDB_NAME, SCHEMA_VERSION);
+  request.onupgradeneeded = (event) => {
+    const db = request.result;
+    const tx = request.transaction!;
+    for (let v = event.oldVersion + 1; v <= SCHEMA_VERSION; v++) {
+      IDB_STORE_MIGRATIONS[v]?.(db);
+    }
+    if (event.oldVersion > 0) {
+      upgradeStore(tx.objectStore('projects'), PROJECT_MIGRATIONS);
+      upgradeStore(tx.objectStore('comments'), COMMENT_MIGRATIONS);
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const createIndexedDBAdapter = (): StorageAdapter => {
+  const dbPromise = openIndexedDB();
+
+  const store = async (name: 'projects' | 'comments' | 'activity' | 'invites', mode: IDBTransactionMode = 'readonly') => {
+    const db = await dbPromise;
+    return db.transaction(name, mode).objectStore(name);
+  };
+
+  const readProject = (record: unknown) => isRecord(record) ? upgradeRecord<Project>(record, PROJECT_MIGRATIONS) : null;
+  const readComment = (record: unknown) => {
+    if (!isRecord(record)) return null;
+    const { projectId, ...comment } = upgradeRecord<Comment & { projectId: string }>(record, COMMENT_MIGRATIONS);
+    return comment as Comment;
+  };
+  const readInvite = (record: unknown) => {
+    if (!isRecord(record)) return null;
+    const { projectId, ...invite } = upgradeRecord<ProjectInvite & { projectId: string }>(record, INVITE_MIGRATIONS);
+    return invite as ProjectInvite;
+  };
+
+  return {
+    listProjects: async () => {
+      const rows = await idbRequest((await store('projects')).getAll());
+      return rows.map(r => readProject(r)!);
+    },
+    getProject: async (id) => readProject(await idbRequest((await store('projects')).get(id))),
+    findProjectByPublicId: async (publicId) => {
+      const index = (await store('projects')).index('publicId');
+      return readProject(await idbRequest(index.get(publicId)));
+    },
+    putProject: async (project) => {
+      await idbRequest((await store('projects', 'readwrite')).put(stampRecord(project)));
+    },
+    listComments: async (projectId) => {
+      const index = (await store('comments')).index('projectId');
+      const rows = await idbRequest(index.getAll(projectId));
+      return rows.map(r => readComment(r)!);
+    },
+    getComment: async (projectId, commentId) => {
+      const row = await idbRequest((await store('comments')).get(commentId));
+      return row && row.projectId === projectId ? readComment(row) : null;
+    },
+    putComment: async (projectId, comment) => {
+      await idbRequest((await store('comments', 'readwrite')).put(stampRecord({ ...comment, projectId })));
+    },
+    listActivity: async (projectId) => {
+      const index = (await store('activity')).index('projectId');
+      const rows = await idbRequest(index.getAll(projectId));
+      return rows.map(r => upgradeRecord<ActivityEvent>(r, ACTIVITY_MIGRATIONS));
+    },
+    putActivity: async (event) => {
+      await idbRequest((await store('activity', 'readwrite')).put(stampRecord(event)));
+    },
+    listInvites: async (projectId) => {
+      const index = (await store('invites')).index('projectId');
+      const rows = await idbRequest(index.getAll(projectId));
+      return rows.map(r => readInvite(r)!);
+    },
+    getInvite: async (projectId, token) => {
+      const row = await idbRequest((await store('invites')).get(token));
+      return row && row.projectId === projectId ? readInvite(row) : null;
+    },
+    putInvite: async (projectId, invite) => {
+      await idbRequest((await store('invites', 'readwrite')).put(stampRecord({ ...invite, projectId })));
+    },
+    deleteInvite: async (projectId, token) => {
+      await idbRequest((await store('invites', 'readwrite')).delete(token));
+    },
+  };
+};
+
+// -- Firestore adapter (REST, works against the local emulator) --
+
+const FIRESTORE_EMULATOR_HOST = process.env.FIRESTORE_EMULATOR_HOST || '';
+const FIREBASE_PROJECT_ID = process.env.FIREBASE_PROJECT_ID || 'demo-creator-feedback';
+
+// The part of Firestore's REST value encoding these records use.
+type FirestoreValue =
+  | { nullValue: null }
+  | { booleanValue: boolean }
+  | { integerValue: string }
+  | { doubleValue: number }
+  | { stringValue: string }
+  | { arrayValue: { values?: FirestoreValue[] } }
+  | { mapValue: { fields?: Record<string, FirestoreValue> } };
+
+interface FirestoreDocument {
+  name: string;
+  fields?: Record<string, FirestoreValue>;
+}
+
+const toFirestoreValue = (value: unknown): FirestoreValue => {
+  if (value === null || value === undefined) return { nullValue: null };
+  if (typeof value === 'boolean') return { booleanValue: value };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value };
+  }
+  if (typeof value === 'string') return { stringValue: value };
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(toFirestoreValue) } };
+  return { mapValue: { fields: toFirestoreFields(value as StoredRecord) } };
+};
+
+const toFirestoreFields = (data: StoredRecord) => {
+  const fields: Record<string, FirestoreValue> = {};
+  Object.entries(data).forEach(([key, value]) => {
+    if (value !== undefined) fields[key] = toFirestoreValue(value);
+  });
+  return fields;
+};
+
+const fromFirestoreValue = (value: FirestoreValue): unknown => {
+  if ('nullValue' in value) return null;
+  if ('booleanValue' in value) return value.booleanValue;
+  if ('integerValue' in value) return Number(value.integerValue);
+  if ('doubleValue' in value) return value.doubleValue;
+  if ('stringValue' in value) return value.stringValue;
+  if ('arrayValue' in value) return (value.arrayValue.values || []).map(fromFirestoreValue);
+  if ('mapValue' in value) return fromFirestoreFields(value.mapValue.fields || {});
+  return null;
+};
+
+const fromFirestoreFields = (fields: Record<string, FirestoreValue>) => {
+  const data: StoredRecord = {};
+  Object.entries(fields).forEach(([key, value]) => { data[key] = fromFirestoreValue(value); });
+  return data;
+};
+
+const createFirestoreAdapter = (): StorageAdapter => {
+  const host = FIRESTORE_EMULATOR_HOST ? `http://${FIRESTORE_EMULATOR_HOST}` : 'https://firestore.googleapis.com';
+  const base = `${host}/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents`;
+  // The emulator accepts this token as an admin credential and skips security rules.
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (FIRESTORE_EMULATOR_HOST) headers.Authorization = 'Bearer owner';
+
+  const request = async <T,>(url: string, init?: RequestInit): Promise<T | null> => {
+    const res = await fetch(url, { ...init, headers });
+    if (res.status === 404) return null;
+    if (!res.ok) throw new Error(`Firestore request failed (${res.status}): ${await res.text()}`);
+    return res.json();
+  };
+
+  const listDocuments = async (path: string) => {
+    const docs: FirestoreDocument[] = [];
+    let pageToken = '';
+    do {
+      const query = `pageSize=300${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`;
+      const page = await request<{ documents?: FirestoreDocument[], nextPageToken?: string }>(`${base}/${path}?${query}`);
+      docs.push(...(page?.documents || []));
+      pageToken = page?.nextPageToken || '';
+    } while (pageToken);
+    return docs.map(d => fromFirestoreFields(d.fields || {}));
+  };
+
+  const getDocument = async (path: string) => {
+    const doc = await request<FirestoreDocument>(`${base}/${path}`);
+    return doc ? fromFirestoreFields(doc.fields || {}) : null;
+  };
+
+  const putDocument = async (path: string, data: object) => {
+    await request(`${base}/${path}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ fields: toFirestoreFields(stampRecord(data)) }),
+    });
+  };
+
+  const deleteDocument = async (path: string) => {
+    await request(`${base}/${path}`, { method: 'DELETE' });
+  };
+
+  const readProject = (record: StoredRecord | null) => record ? upgradeRecord<Project>(record, PROJECT_MIGRATIONS) : null;
+  const readComment = (record: StoredRecord | null) => record ? upgradeRecord<Comment>(record, COMMENT_MIGRATIONS) : null;
+  const readInvite = (record: StoredRecord | null) => record ? upgradeRecord<ProjectInvite>(record, INVITE_MIGRATIONS) : null;
+
+  return {
+    listProjects: async () => (await listDocuments('projects')).map(r => readProject(r)!),
+    getProject: async (id) => readProject(await getDocument(`projects/${id}`)),
+    findProjectByPublicId: async (publicId) => {
+      const results = await request<{ document?: FirestoreDocument }[]>(`${base}:runQuery`, {
+        method: 'POST',
+        body: JSON.stringify({
+          structuredQuery: {
+            from: [{ collectionId: 'projects' }],
+            where: { fieldFilter: { field: { fieldPath: 'publicId' }, op: 'EQUAL', value: { stringValue: publicId } } },
+            limit: 1,
+          },
+        }),
+      });
+      const doc = (results || []).find(r => r.document)?.document;
+      return doc ? readProject(fromFirestoreFields(doc.fields || {})) : null;
+    },
+    putProject: (project) => putDocument(`projects/${project.id}`, project),
+    listComments: async (projectId) => (await listDocuments(`projects/${projectId}/comments`)).map(r => readComment(r)!),
+    getComment: async (projectId, commentId) => readComment(await getDocument(`projects/${projectId}/comments/${commentId}`)),
+    putComment: (projectId, comment) => putDocument(`projects/${projectId}/comments/${comment.id}`, comment),
+    listActivity: async (projectId) => (await listDocuments(`projects/${projectId}/activity`)).map(r => upgradeRecord<ActivityEvent>(r, ACTIVITY_MIGRATIONS)),
+    putActivity: (event) => putDocument(`projects/${event.projectId}/activity/${event.id}`, event),
+    listInvites: async (projectId) => (await listDocuments(`projects/${projectId}/invites`)).map(r => readInvite(r)!),
+    getInvite: async (projectId, token) => readInvite(await getDocument(`projects/${projectId}/invites/${encodeURIComponent(token)}`)),
+    putInvite: (projectId, invite) => putDocument(`projects/${projectId}/invites/${invite.token}`, invite),
+    deleteInvite: (projectId, token) => deleteDocument(`projects/${projectId}/invites/${encodeURIComponent(token)}`),
+  };
+};
+
+const createStorageAdapter = (): StorageAdapter => {
+  if (process.env.DB_BACKEND === 'firestore') return createFirestoreAdapter();
+  return createIndexedDBAdapter();
+};
+
+let storePromise: Promise<StorageAdapter> | null = null;
+
+// Lazily opens the configured backend and seeds the demo project on first run.
+const getStore = () => {
+  if (!storePromise) {
+    storePromise = (async () => {
+      const store = createStorageAdapter();
+      if (!(await store.getProject(DEMO_PROJECT_ID))) {
+        await store.putProject(SEED_DATA.project);
+        await Promise.all(SEED_DATA.comments.map(c => store.putComment(DEMO_PROJECT_ID, c)));
       }
-    ]
-  } as Record<string, Comment[]>
+      return store;
+    })();
+  }
+  return storePromise;
+};
+
+// --- Change Feed ------------------------------------------------------------
+//
+// Every DatabaseService mutation publishes a delta here. Listeners in this tab
+// are notified synchronously; other tabs on the same origin receive it through
+// BroadcastChannel, so two reviewers on one machine see comments immediately.
+// With Firestore, subscribers also poll for changes made in other browsers.
+
+type ChangeType = 'add' | 'update' | 'remove';
+
+type Change =
+  | { collection: 'projects'; type: ChangeType; doc: Project }
+  | { collection: 'comments'; type: ChangeType; projectId: string; doc: Comment }
+  | { collection: 'activity'; type: ChangeType; projectId: string; doc: ActivityEvent };
+
+const CHANGE_CHANNEL = 'creator-feedback:changes';
+
+const changeListeners = new Set<(change: Change) => void>();
+const changeChannel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANGE_CHANNEL) : null;
+
+const dispatchChange = (change: Change) => changeListeners.forEach(listener => listener(change));
+
+if (changeChannel) changeChannel.onmessage = (e: MessageEvent<Change>) => dispatchChange(e.data);
+
+const ChangeFeed = {
+  publish: (change: Change) => {
+    dispatchChange(change);
+    changeChannel?.postMessage(change);
+  },
+
+  subscribe: (listener: (change: Change) => void) => {
+    changeListeners.add(listener);
+    return () => { changeListeners.delete(listener); };
+  }
+};
+
+// Applies a delta to a local snapshot. Returns false when it changed nothing,
+// so subscribers can skip re-emitting identical data.
+const applyChange = <T extends { id: string }>(snapshot: Map<string, T>, type: ChangeType, doc: T) => {
+  if (type === 'remove') return snapshot.delete(doc.id);
+  const existing = snapshot.get(doc.id);
+  if (existing && JSON.stringify(existing) === JSON.stringify(doc)) return false;
+  snapshot.set(doc.id, doc);
+  return true;
+};
+
+// The REST backend has no listen stream, so open snapshots reload this often.
+const SNAPSHOT_POLL_MS = 15000;
+
+// A reload changed something when a document was added, removed or saved again.
+const snapshotChanged = <T extends { id: string; updatedAt?: number }>(previous: Map<string, T>, next: Map<string, T>) =>
+  previous.size !== next.size || [...next.values()].some(doc => {
+    const old = previous.get(doc.id);
+    return !old || old.updatedAt !== doc.updatedAt;
+  });
+
+// Loads an initial snapshot, then keeps it current from the change feed and,
+// with Firestore, by reloading while the tab is visible. Deltas that arrive
+// while a load is in flight are replayed on top of its result. Failed loads
+// go to onError; the snapshot keeps its last good state.
+const subscribeToSnapshot = <T extends { id: string; updatedAt?: number }>(
+  load: () => Promise<T[]>,
+  select: (change: Change) => { type: ChangeType; doc: T } | null,
+  emit: (docs: T[]) => void,
+  onError?: (error: Error) => void,
+) => {
+  let active = true;
+  let loading = false;
+  let snapshot: Map<string, T> | null = null;
+  let pending: { type: ChangeType; doc: T }[] = [];
+
+  const unsubscribe = ChangeFeed.subscribe(change => {
+    const delta = select(change);
+    if (!delta) return;
+    if (loading) pending.push(delta);
+    if (snapshot && applyChange(snapshot, delta.type, delta.doc)) emit([...snapshot.values()]);
+  });
+
+  const refresh = () => {
+    if (loading) return;
+    loading = true;
+    load().then(docs => {
+      if (!active) return;
+      const next = new Map(docs.map(d => [d.id, d]));
+      pending.forEach(delta => applyChange(next, delta.type, delta.doc));
+      const changed = !snapshot || snapshotChanged(snapshot, next);
+      snapshot = next;
+      if (changed) emit([...snapshot.values()]);
+    }).catch(e => {
+      if (active) onError?.(e as Error);
+    }).finally(() => {
+      loading = false;
+      pending = [];
+    });
+  };
+
+  refresh();
+  const poll = process.env.DB_BACKEND === 'firestore'
+    ? setInterval(() => { if (!document.hidden) refresh(); }, SNAPSHOT_POLL_MS)
+    : undefined;
+
+  return () => { active = false; clearInterval(poll); unsubscribe(); };
+};
+
+// --- Review Status ----------------------------------------------------------
+//
+// Each version moves through a small state machine. Reviewers (anyone who may
+// comment) approve or request changes; archiving and reopening are editor
+// actions.
+
+const REVIEW_STATUSES: { status: ReviewStatus; label: string; badge: string }[] = [
+  { status: 'in_review', label: 'In review', badge: 'bg-blue-100 text-blue-700' },
+  { status: 'changes_requested', label: 'Changes requested', badge: 'bg-amber-100 text-amber-800' },
+  { status: 'approved', label: 'Approved', badge: 'bg-green-100 text-green-700' },
+  { status: 'archived', label: 'Archived', badge: 'bg-gray-200 text-gray-600' },
+];
+
+const REVIEW_TRANSITIONS: Record<ReviewStatus, ReviewStatus[]> = {
+  in_review: ['changes_requested', 'approved', 'archived'],
+  changes_requested: ['in_review', 'approved', 'archived'],
+  approved: ['in_review', 'archived'],
+  archived: ['in_review'],
+};
+
+const getReviewStatus = (version: ProjectVersion): ReviewStatus =>
+  version.review?.[version.review.length - 1]?.status || 'in_review';
+
+const getLastDecision = (version: ProjectVersion) => version.review?.[version.review.length - 1];
+
+const reviewStatusLabel = (status: ReviewStatus) => REVIEW_STATUSES.find(s => s.status === status)!.label;
+
+// Approving and requesting changes are review decisions; moving a version
+// back to review or into the archive manages the project.
+const reviewActionFor = (status: ReviewStatus): ProjectAction =>
+  status === 'approved' || status === 'changes_requested' ? 'review' : 'edit';
+
+// --- Permissions ------------------------------------------------------------
+//
+// Every DatabaseService mutation names the Actor making it and is checked
+// against that actor's role on the project. This runs in the client like the
+// rest of the app; mirror it in Firestore rules when deploying for real.
+
+type ProjectAction = 'comment' | 'review' | 'resolve' | 'moderate' | 'upload' | 'edit' | 'share' | 'manage';
+
+const PROJECT_ROLES: { role: ProjectRole; label: string; description: string }[] = [
+  { role: 'owner', label: 'Owner', description: 'Everything, including sharing and members' },
+  { role: 'collaborator', label: 'Collaborator', description: 'Upload versions, resolve and moderate comments' },
+  { role: 'commenter', label: 'Commenter', description: 'Comment and reply' },
+  { role: 'viewer', label: 'Viewer', description: 'Watch only' },
+];
+
+const ROLE_PERMISSIONS: Record<ProjectRole, ProjectAction[]> = {
+  owner: ['comment', 'review', 'resolve', 'moderate', 'upload', 'edit', 'share', 'manage'],
+  collaborator: ['comment', 'review', 'resolve', 'moderate', 'upload', 'edit'],
+  commenter: ['comment', 'review'],
+  viewer: [],
+};
+
+const ACTION_LABELS: Record<ProjectAction, string> = {
+  comment: 'comment',
+  review: 'approve or request changes',
+  resolve: 'resolve comments',
+  moderate: "delete other people's comments",
+  upload: 'upload versions',
+  edit: 'change project settings',
+  share: 'manage the share link',
+  manage: 'manage members',
+};
+
+// Who is making a change. Share-link visitors get the link's role; everyone
+// else needs to be a member.
+interface Actor {
+  uid: string;
+  displayName?: string; // Shown in the activity log
+  shareId?: string; // publicId of the share link they came in through
+}
+
+const getProjectRole = (project: Project, actor: Actor | null): ProjectRole | null => {
+  if (!actor) return null;
+  const member = project.members.find(m => m.uid === actor.uid);
+  if (member) return member.role;
+  // Only the current link counts: regenerating the publicId shuts out old ones.
+  if (actor.shareId && actor.shareId === project.publicId && ShareService.getAccess(project) === 'ok') {
+    return project.share?.role || 'commenter';
+  }
+  return null;
+};
+
+const can = (role: ProjectRole | null, action: ProjectAction) => !!role && ROLE_PERMISSIONS[role].includes(action);
+
+const assertCan = (project: Project, actor: Actor, action: ProjectAction) => {
+  const role = getProjectRole(project, actor);
+  if (!can(role, action)) throw new Error(`You don't have permission to ${ACTION_LABELS[action]} on this project`);
+  return role!;
 };
 
 // --- Services ---------------------------------------------------------------
 
+const AVATAR_COLORS = ['#2563eb', '#7c3aed', '#db2777', '#dc2626', '#ea580c', '#16a34a', '#0891b2', '#4b5563'];
+
+// Stable per id, so everyone keeps the same colour until they pick one.
+const defaultAvatarColor = (id: string) =>
+  AVATAR_COLORS[Array.from(id).reduce((hash, ch) => (hash * 31 + ch.charCodeAt(0)) >>> 0, 0) % AVATAR_COLORS.length];
+
+// Profiles, accounts and the guest identity are kept in this browser, like the
+// simulated session itself. Upgrading keeps the uid (as Firebase's
+// linkWithCredential does), so projects keyed by editorId carry over.
+interface StoredProfile {
+  displayName: string;
+  avatarColor: string;
+  email?: string;
+}
+
+const ACCOUNTS_STORAGE_KEY = 'cf_accounts'; // email -> StoredAccount
+const GUEST_STORAGE_KEY = 'cf_guest';
+const profileStorageKey = (uid: string) => `cf_profile:${uid}`;
+
+const readStoredJson = <T,>(key: string): T | null => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+interface StoredAccount {
+  uid: string;
+  password?: PasswordVerifier;
+  passwordHash?: string; // Unsalted SHA-256 of `${email}:${password}`; replaced on the next sign-in
+}
+
+const readAccounts = () => readStoredJson<Record<string, StoredAccount>>(ACCOUNTS_STORAGE_KEY) || {};
+
+const normaliseEmail = (email: string) => email.trim().toLowerCase();
+
+const checkAccountPassword = async (email: string, account: StoredAccount, password: string) => account.password
+  ? await sha256Hex(await derivePasswordKey(password, account.password)) === account.password.verifier
+  : account.passwordHash === await sha256Hex(`${email}:${password}`);
+
+const loadUser = (uid: string): User => {
+  const profile = readStoredJson<StoredProfile>(profileStorageKey(uid));
+  return {
+    uid,
+    displayName: profile?.displayName || 'Editor',
+    isAnonymous: !profile?.email,
+    email: profile?.email,
+    avatarColor: profile?.avatarColor || defaultAvatarColor(uid),
+  };
+};
+
+const saveProfile = (user: User): User => {
+  const profile: StoredProfile = { displayName: user.displayName, avatarColor: user.avatarColor, email: user.email };
+  localStorage.setItem(profileStorageKey(user.uid), JSON.stringify(profile));
+  return user;
+};
+
 const AuthService = {
   // Simulates Firebase Anonymous Auth
   signInAnonymously: async (): Promise<User> => {
@@ -110,318 +901,4900 @@ const AuthService = {
     
     if (!storedUid) localStorage.setItem('cf_uid', uid);
 
-    return {
+    return loadUser(uid);
+  },
+
+  signInWithEmail: async (email: string, password: string): Promise<User> => {
+    email = normaliseEmail(email);
+    const accounts = readAccounts();
+    const account = accounts[email];
+    if (!account || !await checkAccountPassword(email, account, password)) {
+      throw new Error('Wrong email or password');
+    }
+    if (!account.password) {
+      accounts[email] = { uid: account.uid, password: await createPasswordVerifier(password) };
+      localStorage.setItem(ACCOUNTS_STORAGE_KEY, JSON.stringify(accounts));
+    }
+    localStorage.setItem('cf_uid', account.uid);
+    return loadUser(account.uid);
+  },
+
+  // Turns the anonymous session into an email/password account with the same uid.
+  upgradeToEmail: async (user: User, email: string, password: string): Promise<User> => {
+    email = normaliseEmail(email);
+    if (!/^[^\s@]+@[^\s@]+$/.test(email)) throw new Error('Enter a valid email address');
+    if (password.length < 6) throw new Error('Password must be at least 6 characters');
+    const accounts = readAccounts();
+    if (accounts[email]) throw new Error('An account with this email already exists');
+    accounts[email] = { uid: user.uid, password: await createPasswordVerifier(password) };
+    localStorage.setItem(ACCOUNTS_STORAGE_KEY, JSON.stringify(accounts));
+    return saveProfile({ ...user, email, isAnonymous: false });
+  },
+
+  updateProfile: async (user: User, changes: Partial<Pick<User, 'displayName' | 'avatarColor'>>): Promise<User> => {
+    return saveProfile({ ...user, ...changes });
+  },
+
+  // The guest identity used on share links in this browser, if one was entered.
+  getGuest: (): User | null => readStoredJson<User>(GUEST_STORAGE_KEY),
+
+  saveGuest: (details: Pick<User, 'displayName'> & Partial<Pick<User, 'email' | 'avatarColor'>>): User => {
+    const current = AuthService.getGuest();
+    const uid = current?.uid || `guest_${Math.random().toString(36).substr(2, 9)}`;
+    const guest: User = {
       uid,
-      displayName: 'Editor',
-      isAnonymous: true
+      isAnonymous: true,
+      displayName: details.displayName,
+      email: details.email || undefined,
+      avatarColor: details.avatarColor || current?.avatarColor || defaultAvatarColor(uid),
     };
+    localStorage.setItem(GUEST_STORAGE_KEY, JSON.stringify(guest));
+    return guest;
   },
   
-  signOut: async () => {
+  signOut: async (user: User | null) => {
     // In anonymous mode, "Sign Out" just clears the local session reference in context,
     // but we keep the ID in localStorage so they don't lose their data if they come back.
-    return;
+    // Account sessions end for real; signing in again restores them.
+    if (user && !user.isAnonymous) localStorage.removeItem('cf_uid');
   }
 };
 
-const StorageService = {
-  // Simulates Firebase Storage
-  uploadVideo: (file: File, onProgress: (progress: number) => void): Promise<string> => {
-    return new Promise((resolve) => {
-      let progress = 0;
-      const interval = setInterval(() => {
-        progress += 10;
-        onProgress(progress);
-        if (progress >= 100) {
-          clearInterval(interval);
-          // In a real app without billing, you might strictly rely on Firebase Storage Spark Plan.
-          // Since we are mocking here, we return a dummy URL.
-          resolve('https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ElephantsDream.mp4');
-        }
-      }, 200);
-    });
-  }
+const updateProject = async (projectId: string, update: (project: Project) => Promise<Project>) => {
+  const store = await getStore();
+  const project = await store.getProject(projectId);
+  if (!project) return null;
+  const updated = { ...await update(project), updatedAt: Date.now() };
+  await store.putProject(updated);
+  ChangeFeed.publish({ collection: 'projects', type: 'update', doc: updated });
+  return updated;
+};
+
+// Orders by in point, then out point (so a point note sorts before a range
+// starting on the same frame), then by creation time.
+const compareComments = (a: Comment, b: Comment) =>
+  a.timestamp - b.timestamp
+  || (a.endTimestamp ?? a.timestamp) - (b.endTimestamp ?? b.timestamp)
+  || a.createdAt - b.createdAt;
+
+// Unique enough for client-generated ids, even when several are made in the
+// same millisecond (e.g. carrying a batch of comments forward).
+const newId = (prefix: string) => `${prefix}_${Date.now()}${Math.random().toString(36).slice(2, 6)}`;
+
+const getLatestVersion = (project: Project) => project.versions[project.versions.length - 1];
+
+const updateComment = async (projectId: string, commentId: string, update: (comment: Comment) => Comment) => {
+  const store = await getStore();
+  const comment = await store.getComment(projectId, commentId);
+  if (!comment) return null;
+  const updated = { ...update(comment), updatedAt: Date.now() };
+  await store.putComment(projectId, updated);
+  ChangeFeed.publish({ collection: 'comments', type: 'update', projectId, doc: updated });
+  return updated;
+};
+
+// Loads the project and checks `actor` may do `action` on it.
+const authorize = async (actor: Actor, projectId: string, action: ProjectAction) => {
+  const project = await (await getStore()).getProject(projectId);
+  if (!project) throw new Error(`Project ${projectId} not found`);
+  return { project, role: assertCan(project, actor, action) };
+};
+
+const insertComment = async (projectId: string, comment: Omit<Comment, 'id' | 'createdAt'>) => {
+  const newComment: Comment = {
+    ...comment,
+    id: newId('c'),
+    createdAt: Date.now()
+  };
+  await (await getStore()).putComment(projectId, newComment);
+  ChangeFeed.publish({ collection: 'comments', type: 'add', projectId, doc: newComment });
+  return newComment;
+};
+
+const ACTIVITY_EXCERPT_LENGTH = 140;
+
+const excerpt = (text: string) =>
+  text.length > ACTIVITY_EXCERPT_LENGTH ? `${text.slice(0, ACTIVITY_EXCERPT_LENGTH - 1)}…` : text;
+
+// Members go by the name on their member entry, which only the service writes;
+// share-link guests by the name they gave.
+const actorName = (project: Project, actor: Actor) =>
+  project.members.find(m => m.uid === actor.uid)?.displayName || actor.displayName || 'Someone';
+
+const recordActivity = async (projectId: string, event: Omit<ActivityEvent, 'id' | 'projectId' | 'createdAt'>) => {
+  const entry: ActivityEvent = { ...event, id: newId('a'), projectId, createdAt: Date.now() };
+  await (await getStore()).putActivity(entry);
+  ChangeFeed.publish({ collection: 'activity', type: 'add', projectId, doc: entry });
+  return entry;
 };
 
 const DatabaseService = {
-  subscribeToProjects: (userId: string, callback: (projects: Project[]) => void) => {
-    const load = () => {
-      // In mock mode, we show the demo project to everyone + their own projects
-      const projects = Object.values(MOCK_DB.projects).filter(p => p.editorId === userId || p.id === 'proj_1');
-      callback(projects);
-    };
-    load();
-    const interval = setInterval(load, 2000);
-    return () => clearInterval(interval);
+  subscribeToProjects: (userId: string, callback: (projects: Project[]) => void, onError?: (error: Error) => void) => {
+    // We show the demo project to everyone + their own projects
+    const isVisible = (p: Project) => p.members.some(m => m.uid === userId) || p.id === DEMO_PROJECT_ID;
+    return subscribeToSnapshot<Project>(
+      async () => (await (await getStore()).listProjects()).filter(isVisible),
+      change => change.collection === 'projects' && isVisible(change.doc) ? change : null,
+      callback,
+      onError,
+    );
   },
 
-  subscribeToComments: (projectId: string, callback: (comments: Comment[]) => void) => {
-    const load = () => {
-      const comments = MOCK_DB.comments[projectId] || [];
-      callback([...comments].sort((a, b) => a.timestamp - b.timestamp));
-    };
-    load();
-    const interval = setInterval(load, 1000);
-    return () => clearInterval(interval);
+  subscribeToProject: (projectId: string, callback: (project: Project | null) => void, onError?: (error: Error) => void) => {
+    return subscribeToSnapshot<Project>(
+      async () => {
+        const project = await (await getStore()).getProject(projectId);
+        return project ? [project] : [];
+      },
+      change => change.collection === 'projects' && change.doc.id === projectId ? change : null,
+      projects => callback(projects[0] || null),
+      onError,
+    );
+  },
+
+  // Pass a versionId to only receive that version's comments.
+  subscribeToComments: (projectId: string, callback: (comments: Comment[]) => void, versionId?: string, onError?: (error: Error) => void) => {
+    const inVersion = (c: Comment) => !versionId || c.versionId === versionId;
+    return subscribeToSnapshot<Comment>(
+      async () => (await (await getStore()).listComments(projectId)).filter(inVersion),
+      change => change.collection === 'comments' && change.projectId === projectId && inVersion(change.doc) ? change : null,
+      comments => callback(comments.sort(compareComments)),
+      onError,
+    );
   },
 
-  createProject: async (project: Omit<Project, 'id' | 'publicId' | 'createdAt'>) => {
+  // One-shot read with the same filtering and order as subscribeToComments.
+  getComments: async (projectId: string, versionId?: string) => {
+    const comments = await (await getStore()).listComments(projectId);
+    return comments.filter(c => !versionId || c.versionId === versionId).sort(compareComments);
+  },
+
+  // Newest first, across all of `projectIds`.
+  subscribeToActivity: (projectIds: string[], callback: (events: ActivityEvent[]) => void, onError?: (error: Error) => void) => {
+    return subscribeToSnapshot<ActivityEvent>(
+      async () => {
+        const store = await getStore();
+        return (await Promise.all(projectIds.map(id => store.listActivity(id)))).flat();
+      },
+      change => change.collection === 'activity' && projectIds.includes(change.projectId) ? change : null,
+      events => callback(events.sort((a, b) => b.createdAt - a.createdAt)),
+      onError,
+    );
+  },
+
+  // One-shot read of events after `since`, newest first.
+  getActivity: async (projectIds: string[], since = 0) => {
+    const store = await getStore();
+    const events = (await Promise.all(projectIds.map(id => store.listActivity(id)))).flat();
+    return events.filter(e => e.createdAt > since).sort((a, b) => b.createdAt - a.createdAt);
+  },
+
+  // The creator (editorId) becomes the first owner.
+  createProject: async ({ videoUrl, duration, editorName, ...project }: Omit<Project, 'id' | 'publicId' | 'createdAt' | 'versions' | 'members'> & Pick<ProjectVersion, 'videoUrl' | 'duration'> & { editorName?: string }) => {
     const id = `proj_${Date.now()}`;
     const publicId = Math.random().toString(36).substring(7);
+    const createdAt = Date.now();
     const newProject: Project = {
       ...project,
       id,
       publicId,
-      createdAt: Date.now()
+      members: [{ uid: project.editorId, role: 'owner', displayName: editorName, addedAt: createdAt }],
+      versions: [{ id: 'v1', number: 1, videoUrl, duration, createdAt, status: project.status }],
+      createdAt
     };
-    MOCK_DB.projects[id] = newProject;
-    MOCK_DB.comments[id] = [];
+    await (await getStore()).putProject(newProject);
+    ChangeFeed.publish({ collection: 'projects', type: 'add', doc: newProject });
     return newProject;
   },
 
-  addComment: async (projectId: string, comment: Omit<Comment, 'id' | 'createdAt'>) => {
-    const newComment: Comment = {
-      ...comment,
-      id: `c_${Date.now()}`,
-      createdAt: Date.now()
-    };
-    if (!MOCK_DB.comments[projectId]) MOCK_DB.comments[projectId] = [];
-    MOCK_DB.comments[projectId].push(newComment);
-    return newComment;
+  addComment: async (actor: Actor, projectId: string, comment: Omit<Comment, 'id' | 'createdAt'>) => {
+    await authorize(actor, projectId, 'comment');
+    if (comment.authorId !== actor.uid) throw new Error('Comments must be posted as yourself');
+    const created = await insertComment(projectId, comment);
+    await recordActivity(projectId, {
+      type: 'comment_added',
+      actorId: actor.uid,
+      actorName: comment.authorName,
+      versionId: comment.versionId,
+      commentId: created.id,
+      text: excerpt(comment.text),
+    });
+    return created;
   },
 
-  resolveComment: async (projectId: string, commentId: string, resolved: boolean) => {
-    const comments = MOCK_DB.comments[projectId];
-    if (comments) {
-      const idx = comments.findIndex(c => c.id === commentId);
-      if (idx !== -1) comments[idx].resolved = resolved;
+  // Adds the next cut, which stays 'processing' until finishProcessing runs.
+  // With carryForward, unresolved threads from the previous version are copied
+  // onto the new one at the same timestamps.
+  addVersion: async (actor: Actor, projectId: string, video: Pick<ProjectVersion, 'videoUrl' | 'duration'>, carryForward: boolean) => {
+    const store = await getStore();
+    const { project } = await authorize(actor, projectId, 'upload');
+    const previous = getLatestVersion(project);
+    const number = previous.number + 1;
+    const version: ProjectVersion = { ...video, id: `v${number}`, number, createdAt: Date.now(), status: 'processing' };
+    const updated: Project = { ...project, versions: [...project.versions, version], status: 'processing', updatedAt: Date.now() };
+    await store.putProject(updated);
+    ChangeFeed.publish({ collection: 'projects', type: 'update', doc: updated });
+    await recordActivity(projectId, { type: 'version_uploaded', actorId: actor.uid, actorName: actorName(project, actor), versionId: version.id });
+
+    if (carryForward) {
+      const previousComments = (await store.listComments(projectId)).filter(c => c.versionId === previous.id);
+      for (const { root, replies } of buildThreads(previousComments.sort(compareComments))) {
+        if (root.resolved || root.deletedAt) continue;
+        const { id, createdAt, ...rootData } = root;
+        const copy = await insertComment(projectId, { ...rootData, versionId: version.id, carriedFromId: id });
+        for (const { id: replyId, createdAt: replyCreatedAt, ...replyData } of replies) {
+          await insertComment(projectId, { ...replyData, parentId: copy.id, versionId: version.id, carriedFromId: replyId });
+        }
+      }
     }
+    return version;
   },
-  
-  getProjectByPublicId: async (publicId: string): Promise<Project | null> => {
-    await new Promise(r => setTimeout(r, 500));
-    return Object.values(MOCK_DB.projects).find(p => p.publicId === publicId) || null;
-  }
-};
 
-// --- Gemini AI Service (Client Side) ----------------------------------------
+  // Replies attach to the thread root and inherit its timestamp.
+  addReply: async (actor: Actor, projectId: string, parentId: string, reply: Pick<Comment, 'authorId' | 'authorName' | 'authorColor' | 'text'>) => {
+    const parent = await (await getStore()).getComment(projectId, parentId);
+    if (!parent) throw new Error(`Cannot reply to missing comment ${parentId}`);
+    return DatabaseService.addComment(actor, projectId, {
+      ...reply,
+      parentId: parent.parentId || parent.id,
+      versionId: parent.versionId,
+      timestamp: parent.timestamp,
+      endTimestamp: parent.endTimestamp,
+      resolved: false,
+    });
+  },
 
-const AIService = {
-  summarizeFeedback: async (comments: Comment[], videoTitle: string) => {
-    if (!AI_API_KEY) return "Configuration Error: API_KEY is missing.";
-    
-    const ai = new GoogleGenAI({ apiKey: AI_API_KEY });
-    const unresolved = comments.filter(c => !c.resolved);
-    
-    if (unresolved.length === 0) return "All feedback resolved! Good job.";
+  editComment: async (actor: Actor, projectId: string, commentId: string, text: string) => {
+    const { project } = await authorize(actor, projectId, 'comment');
+    return updateComment(projectId, commentId, c => {
+      if (!isCommentAuthor(project, c, actor.uid)) throw new Error('Only the author can edit a comment');
+      if (c.deletedAt) throw new Error('Cannot edit a deleted comment');
+      if (c.text === text) return c;
+      return {
+        ...c,
+        text,
+        editedAt: Date.now(),
+        editHistory: [...(c.editHistory || []), { text: c.text, createdAt: c.editedAt || c.createdAt }],
+      };
+    });
+  },
 
-    const feedbackData = unresolved.map(c => ({
-      time: `${Math.floor(c.timestamp / 60)}:${Math.floor(c.timestamp % 60).toString().padStart(2,'0')}`,
-      author: c.authorName,
-      text: c.text,
-    }));
+  // Authors can delete their own comments; moderators anyone's.
+  deleteComment: async (actor: Actor, projectId: string, commentId: string) => {
+    const { project, role } = await authorize(actor, projectId, 'comment');
+    return updateComment(projectId, commentId, c => {
+      if (!isCommentAuthor(project, c, actor.uid) && !can(role, 'moderate')) throw new Error(`You don't have permission to ${ACTION_LABELS.moderate} on this project`);
+      return { ...c, deletedAt: Date.now() };
+    });
+  },
+
+  resolveComment: async (actor: Actor, projectId: string, commentId: string, resolved: boolean) => {
+    const { project } = await authorize(actor, projectId, 'resolve');
+    const updated = await updateComment(projectId, commentId, c => ({ ...c, resolved }));
+    if (!updated) return;
+    await recordActivity(projectId, {
+      type: resolved ? 'comment_resolved' : 'comment_reopened',
+      actorId: actor.uid,
+      actorName: actorName(project, actor),
+      versionId: updated.versionId,
+      commentId,
+      text: excerpt(updated.text),
+    });
+  },
+
+  getProject: async (projectId: string): Promise<Project | null> => {
+    return (await getStore()).getProject(projectId);
+  },
+
+  // Stores what MediaService read from a version's file, or why it could not.
+  // A detected frame rate only applies when the editor has not picked one.
+  finishProcessing: async (actor: Actor, projectId: string, versionId: string, outcome: { media: VideoMedia } | { error: string }) => {
+    return updateProject(projectId, async p => {
+      assertCan(p, actor, 'upload');
+      const patch: Partial<ProjectVersion> = 'media' in outcome
+        ? { ...outcome.media, status: 'ready', error: undefined }
+        : { status: 'error', error: outcome.error };
+      const versions = p.versions.map(v => v.id === versionId ? { ...v, ...patch } : v);
+      const latest = versions[versions.length - 1];
+      return {
+        ...p,
+        versions,
+        status: latest.status || 'ready',
+        thumbnailUrl: latest.thumbnailUrl || p.thumbnailUrl,
+        frameRate: p.frameRate || ('media' in outcome ? outcome.media.frameRate : undefined),
+      };
+    });
+  },
+
+  // Peaks decoded after the fact for a version that had none.
+  saveWaveform: async (actor: Actor, projectId: string, versionId: string, waveformUrl: string) => {
+    return updateProject(projectId, async p => {
+      assertCan(p, actor, 'upload');
+      return { ...p, versions: p.versions.map(v => v.id === versionId ? { ...v, waveformUrl } : v) };
+    });
+  },
+
+  // Approval is refused while the version has unresolved threads, unless
+  // allowOpenComments says the reviewer saw the warning and went ahead.
+  setReviewStatus: async (actor: Actor, projectId: string, versionId: string, decision: {
+    status: ReviewStatus; note?: string; allowOpenComments?: boolean
+  }) => {
+    const { status, note, allowOpenComments } = decision;
+    const store = await getStore();
+    let byName = '';
+    const updated = await updateProject(projectId, async p => {
+      assertCan(p, actor, reviewActionFor(status));
+      byName = actorName(p, actor);
+      // Counted here so the record matches the comments at the moment of the decision.
+      const comments = (await store.listComments(projectId)).filter(c => c.versionId === versionId);
+      const openComments = buildThreads(comments).filter(t => !t.root.resolved && !t.root.deletedAt).length;
+      const version = p.versions.find(v => v.id === versionId);
+      if (!version) throw new Error(`Version ${versionId} not found`);
+      const current = getReviewStatus(version);
+      if (!REVIEW_TRANSITIONS[current].includes(status)) {
+        throw new Error(`Can't go from ${reviewStatusLabel(current)} to ${reviewStatusLabel(status)}`);
+      }
+      if (status === 'approved' && openComments > 0 && !allowOpenComments) {
+        throw new Error(`${openComments} comment${openComments === 1 ? ' is' : 's are'} still unresolved`);
+      }
+      const entry: ReviewDecision = { status, byId: actor.uid, byName, at: Date.now(), note: note || undefined, openComments };
+      return {
+        ...p,
+        versions: p.versions.map(v => v.id === versionId ? { ...v, review: [...(v.review || []), entry] } : v),
+      };
+    });
+    if (updated && (status === 'approved' || status === 'changes_requested')) {
+      await recordActivity(projectId, {
+        type: status === 'approved' ? 'version_approved' : 'changes_requested',
+        actorId: actor.uid,
+        actorName: byName,
+        versionId,
+        text: note ? excerpt(note) : undefined,
+      });
+    }
+    return updated;
+  },
+
+  setFrameRate: async (actor: Actor, projectId: string, frameRate: number) => {
+    return updateProject(projectId, async p => {
+      assertCan(p, actor, 'edit');
+      return { ...p, frameRate };
+    });
+  },
+
+  // Leaves the expiry alone unless `expiresAt` is given; pass undefined to clear it.
+  updateShareSettings: async (actor: Actor, projectId: string, settings: { expiresAt?: number; password?: string | null; role?: ShareSettings['role'] }) => {
+    // Slow on purpose, so it runs once rather than on every retry.
+    const password = settings.password ? await createPasswordVerifier(settings.password) : undefined;
+    return updateProject(projectId, async p => {
+      assertCan(p, actor, 'share');
+      const share: ShareSettings = { ...p.share, role: settings.role || p.share?.role };
+      if ('expiresAt' in settings) share.expiresAt = settings.expiresAt;
+      if (settings.password === null) delete share.password;
+      else if (password) share.password = password;
+      return { ...p, share };
+    });
+  },
+
+  revokeShareLink: async (actor: Actor, projectId: string) => {
+    return updateProject(projectId, async p => {
+      assertCan(p, actor, 'share');
+      const { liveRoom, ...rest } = p;
+      return { ...rest, share: { ...p.share, revoked: true } };
+    });
+  },
+
+  // Issues a fresh publicId, which invalidates every link handed out so far.
+  regeneratePublicId: async (actor: Actor, projectId: string) => {
+    return updateProject(projectId, async p => {
+      assertCan(p, actor, 'share');
+      const { liveRoom, ...rest } = p;
+      return { ...rest, publicId: Math.random().toString(36).substring(7), share: { ...p.share, revoked: false } };
+    });
+  },
+
+  // Anyone who can open the project may join its live session.
+  getLiveRoom: async (actor: Actor, projectId: string) => {
+    const project = await (await getStore()).getProject(projectId);
+    if (!project || !getProjectRole(project, actor)) throw new Error("You don't have access to this project");
+    if (project.liveRoom) return project.liveRoom;
+    const updated = await updateProject(projectId, async p => p.liveRoom ? p : { ...p, liveRoom: crypto.randomUUID() });
+    return updated!.liveRoom!;
+  },
+
+  // Pending invites. Only people who may manage members see the tokens.
+  listInvites: async (actor: Actor, projectId: string) => {
+    await authorize(actor, projectId, 'manage');
+    const invites = await (await getStore()).listInvites(projectId);
+    return invites.sort((a, b) => a.createdAt - b.createdAt);
+  },
+
+  createInvite: async (actor: Actor, projectId: string, role: ProjectRole) => {
+    await authorize(actor, projectId, 'manage');
+    const invite: ProjectInvite = { token: crypto.randomUUID(), role, createdBy: actor.uid, createdAt: Date.now() };
+    await (await getStore()).putInvite(projectId, invite);
+    return invite;
+  },
+
+  revokeInvite: async (actor: Actor, projectId: string, token: string) => {
+    await authorize(actor, projectId, 'manage');
+    await (await getStore()).deleteInvite(projectId, token);
+  },
+
+  // Spends the invite before adding the member, so it can't be used twice.
+  // Existing members keep the better of the two roles.
+  acceptInvite: async (user: User, projectId: string, token: string) => {
+    const store = await getStore();
+    const invite = await store.getInvite(projectId, token);
+    if (!invite) throw new Error('This invite has already been used or was revoked');
+    await store.deleteInvite(projectId, token);
+    const updated = await updateProject(projectId, async p => {
+      const existing = p.members.find(m => m.uid === user.uid);
+      const rank = (role: ProjectRole) => PROJECT_ROLES.findIndex(r => r.role === role);
+      if (existing && rank(existing.role) <= rank(invite.role)) return p;
+      const member: ProjectMember = { uid: user.uid, role: invite.role, displayName: user.displayName, addedAt: Date.now() };
+      return { ...p, members: [...p.members.filter(m => m.uid !== user.uid), member] };
+    });
+    if (!updated) throw new Error('This project no longer exists');
+    return updated;
+  },
+
+  // Members may always remove themselves. A project never loses its last owner.
+  setMemberRole: async (actor: Actor, projectId: string, uid: string, role: ProjectRole | null) => {
+    return updateProject(projectId, async p => {
+      if (!(role === null && uid === actor.uid)) assertCan(p, actor, 'manage');
+      const members = role === null
+        ? p.members.filter(m => m.uid !== uid)
+        : p.members.map(m => m.uid === uid ? { ...m, role } : m);
+      if (!members.some(m => m.role === 'owner')) throw new Error('A project needs at least one owner');
+      return { ...p, members };
+    });
+  },
+  
+  getProjectByPublicId: async (publicId: string): Promise<Project | null> => {
+    return (await getStore()).findProjectByPublicId(publicId);
+  }
+};
+
+// --- Blob Storage -----------------------------------------------------------
+//
+// Uploaded videos go to a BlobBackend in fixed-size chunks. Locally they stay
+// in the browser (OPFS where supported, IndexedDB otherwise); set
+// UPLOAD_BACKEND=s3 to send them to an S3-compatible bucket instead, such as a
+// local MinIO at S3_ENDPOINT.
+
+interface BlobBackend {
+  name: string;
+  chunkSize: number;
+  // Starts an upload and returns a session token that later calls must pass.
+  begin: (key: string, file: File, signal: AbortSignal) => Promise<string>;
+  // Stores chunk `index` and returns a tag that `complete` needs (e.g. an ETag).
+  putChunk: (session: string, key: string, index: number, chunk: Blob, onProgress: (bytes: number) => void, signal: AbortSignal) => Promise<string>;
+  // Assembles the chunks and returns the URL saved on the project version.
+  complete: (session: string, key: string, parts: string[]) => Promise<string>;
+  abort: (session: string, key: string) => Promise<void>;
+}
+
+const MiB = 1024 * 1024;
+
+const UPLOAD_BACKEND = process.env.UPLOAD_BACKEND || 'local';
+const S3_ENDPOINT = (process.env.S3_ENDPOINT || 'http://localhost:9000').replace(/\/$/, '');
+const S3_BUCKET = process.env.S3_BUCKET || 'creator-feedback';
+
+// URLs of videos kept in the browser. They are resolved to object URLs at
+// playback time, see StorageService.resolveUrl.
+const OPFS_URL_PREFIX = 'opfs:';
+const IDB_BLOB_URL_PREFIX = 'idb-blob:';
+
+// -- OPFS backend: one directory per upload, one file per chunk --
+
+const opfsUploadDir = async (key: string, create = false) => {
+  const root = await navigator.storage.getDirectory();
+  const videos = await root.getDirectoryHandle('videos', { create: true });
+  return videos.getDirectoryHandle(key, { create });
+};
+
+const chunkName = (index: number) => String(index).padStart(6, '0');
+
+const readOPFSBlob = async (key: string) => {
+  const dir = await opfsUploadDir(key);
+  const chunks: File[] = [];
+  for (let index = 0; ; index++) {
+    try {
+      chunks.push(await (await dir.getFileHandle(chunkName(index))).getFile());
+    } catch (err) {
+      if ((err as DOMException).name === 'NotFoundError') break;
+      throw err;
+    }
+  }
+  return new Blob(chunks);
+};
+
+const createOPFSBackend = (): BlobBackend => ({
+  name: 'opfs',
+  chunkSize: 4 * MiB,
+  begin: async (key) => { await opfsUploadDir(key, true); return key; },
+  putChunk: async (_session, key, index, chunk, onProgress) => {
+    const handle = await (await opfsUploadDir(key)).getFileHandle(chunkName(index), { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(chunk);
+    await writable.close();
+    onProgress(chunk.size);
+    return String(chunk.size);
+  },
+  complete: async (_session, key) => `${OPFS_URL_PREFIX}${key}`,
+  abort: async (_session, key) => {
+    const root = await navigator.storage.getDirectory();
+    const videos = await root.getDirectoryHandle('videos', { create: true });
+    await videos.removeEntry(key, { recursive: true }).catch(() => {});
+  },
+});
+
+// -- IndexedDB backend: chunks keyed by [key, index] --
+
+let blobDbPromise: Promise<IDBDatabase> | null = null;
+
+const openBlobDB = () => {
+  if (!blobDbPromise) {
+    blobDbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(`${IDB_NAME}-blobs`, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore('chunks', { keyPath: ['key', 'index'] });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return blobDbPromise;
+};
+
+const blobChunks = async (mode: IDBTransactionMode = 'readonly') => (await openBlobDB()).transaction('chunks', mode).objectStore('chunks');
+
+const chunkRange = (key: string) => IDBKeyRange.bound([key, 0], [key, Infinity]);
+
+const readIndexedDBBlob = async (key: string) => {
+  const rows = await idbRequest((await blobChunks()).getAll(chunkRange(key)));
+  return new Blob(rows.map((r: { data: Blob }) => r.data));
+};
+
+const createIndexedDBBlobBackend = (): BlobBackend => ({
+  name: 'indexeddb',
+  chunkSize: 4 * MiB,
+  begin: async (key) => key,
+  putChunk: async (_session, key, index, chunk, onProgress) => {
+    await idbRequest((await blobChunks('readwrite')).put({ key, index, data: chunk }));
+    onProgress(chunk.size);
+    return String(chunk.size);
+  },
+  complete: async (_session, key) => `${IDB_BLOB_URL_PREFIX}${key}`,
+  abort: async (_session, key) => { await idbRequest((await blobChunks('readwrite')).delete(chunkRange(key))); },
+});
+
+// -- S3-compatible backend (multipart upload API) --
+//
+// Requests are unsigned, so the bucket must allow anonymous writes (fine for a
+// local MinIO) and its CORS rules must expose the ETag header.
+
+const createS3Backend = (): BlobBackend => {
+  const objectUrl = (key: string) => `${S3_ENDPOINT}/${S3_BUCKET}/videos/${encodeURIComponent(key)}`;
+
+  const send = (method: string, url: string, body: XMLHttpRequestBodyInit | null, options: {
+    contentType?: string, onProgress?: (bytes: number) => void, signal?: AbortSignal
+  } = {}) => new Promise<XMLHttpRequest>((resolve, reject) => {
+    // XHR rather than fetch: fetch cannot report upload progress.
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    if (options.contentType) xhr.setRequestHeader('Content-Type', options.contentType);
+    if (options.onProgress) xhr.upload.onprogress = (e) => options.onProgress!(e.loaded);
+    xhr.onload = () => {
+      // CompleteMultipartUpload can fail with a 200 and an <Error> body.
+      if (xhr.status < 300 && !xhr.responseText.includes('<Error>')) resolve(xhr);
+      else reject(new Error(`S3 ${method} failed (${xhr.status}): ${xhr.responseText}`));
+    };
+    xhr.onerror = () => reject(new Error(`S3 ${method} failed: network error`));
+    xhr.onabort = () => reject(new DOMException('Upload aborted', 'AbortError'));
+    options.signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+    xhr.send(body);
+  });
+
+  const xmlText = (xml: string, tag: string) =>
+    new DOMParser().parseFromString(xml, 'application/xml').getElementsByTagName(tag)[0]?.textContent || '';
+
+  return {
+    name: 's3',
+    chunkSize: 8 * MiB, // S3 rejects parts under 5 MiB, except the last
+    begin: async (key, file, signal) => {
+      const xhr = await send('POST', `${objectUrl(key)}?uploads`, null, { contentType: file.type || 'video/mp4', signal });
+      const uploadId = xmlText(xhr.responseText, 'UploadId');
+      if (!uploadId) throw new Error('S3 did not return an UploadId');
+      return uploadId;
+    },
+    putChunk: async (session, key, index, chunk, onProgress, signal) => {
+      const url = `${objectUrl(key)}?partNumber=${index + 1}&uploadId=${encodeURIComponent(session)}`;
+      const xhr = await send('PUT', url, chunk, { onProgress, signal });
+      const etag = xhr.getResponseHeader('ETag');
+      if (!etag) throw new Error('S3 returned no ETag; expose it in the bucket CORS rules');
+      return etag;
+    },
+    complete: async (session, key, parts) => {
+      const body = `<CompleteMultipartUpload>${parts.map((etag, i) =>
+        `<Part><PartNumber>${i + 1}</PartNumber><ETag>${etag}</ETag></Part>`).join('')}</CompleteMultipartUpload>`;
+      await send('POST', `${objectUrl(key)}?uploadId=${encodeURIComponent(session)}`, body, { contentType: 'application/xml' });
+      return objectUrl(key);
+    },
+    abort: async (session, key) => {
+      await send('DELETE', `${objectUrl(key)}?uploadId=${encodeURIComponent(session)}`, null);
+    },
+  };
+};
+
+const createBlobBackend = (): BlobBackend => {
+  if (UPLOAD_BACKEND === 's3') return createS3Backend();
+  const hasOPFS = typeof navigator !== 'undefined' && !!navigator.storage?.getDirectory
+    && typeof FileSystemFileHandle !== 'undefined' && 'createWritable' in FileSystemFileHandle.prototype;
+  return hasOPFS ? createOPFSBackend() : createIndexedDBBlobBackend();
+};
+
+let blobBackend: BlobBackend | null = null;
+
+const getBlobBackend = () => blobBackend || (blobBackend = createBlobBackend());
+
+// --- Upload Queue -----------------------------------------------------------
+//
+// StorageService runs uploads in the background so the editor can queue
+// several at once. Progress is saved to localStorage after every chunk; after a
+// reload an upload shows as interrupted and continues from the last stored
+// chunk once the same file is picked again (browsers do not let a page reopen
+// a file by itself).
+
+type UploadStatus = 'queued' | 'uploading' | 'paused' | 'interrupted' | 'error' | 'done';
+
+// What to create once the video is stored.
+type UploadTarget =
+  | { type: 'project'; editorId: string; editorName?: string; title: string }
+  | { type: 'version'; projectId: string; carryForward: boolean; actor: Actor };
+
+interface UploadTask {
+  id: string;
+  fileName: string;
+  fingerprint: string; // name:size:lastModified, to recognise the file after a reload
+  size: number;
+  uploaded: number; // Bytes
+  status: UploadStatus;
+  error?: string;
+  target: UploadTarget;
+  backend: string; // BlobBackend name the parts below belong to
+  key: string;
+  session?: string;
+  parts: string[]; // Tags of the stored chunks, in order
+  url?: string; // Set once the backend has completed the file, so a retry only redoes finishUpload
+  createdAt: number;
+}
+
+const UPLOADS_STORAGE_KEY = 'cf_uploads';
+const MAX_CONCURRENT_UPLOADS = 2;
+const UPLOAD_RETRY_ATTEMPTS = 5;
+
+const fileFingerprint = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+const loadUploadTasks = (): UploadTask[] => {
+  try {
+    const saved: UploadTask[] = JSON.parse(localStorage.getItem(UPLOADS_STORAGE_KEY) || '[]');
+    // Nothing is running yet, so anything unfinished needs its file again.
+    return saved.map(t => ({ ...t, status: 'interrupted' }));
+  } catch {
+    return [];
+  }
+};
+
+let uploadTasks: UploadTask[] = typeof localStorage !== 'undefined' ? loadUploadTasks() : [];
+const uploadFiles = new Map<string, File>();
+const uploadControllers = new Map<string, AbortController>();
+const uploadListeners = new Set<(tasks: UploadTask[]) => void>();
+
+const setUploadTasks = (tasks: UploadTask[]) => {
+  uploadTasks = tasks;
+  localStorage.setItem(UPLOADS_STORAGE_KEY, JSON.stringify(tasks.filter(t => t.status !== 'done')));
+  uploadListeners.forEach(listener => listener(tasks));
+};
+
+const patchUploadTask = (id: string, patch: Partial<UploadTask>) => {
+  setUploadTasks(uploadTasks.map(t => t.id === id ? { ...t, ...patch } : t));
+  return uploadTasks.find(t => t.id === id)!;
+};
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => { clearTimeout(timer); reject(signal.reason); }, { once: true });
+});
+
+// Retries with exponential backoff and jitter: ~0.5s, 1s, 2s, 4s between tries.
+const withRetry = async <T,>(attempt: () => Promise<T>, signal: AbortSignal) => {
+  for (let n = 1; ; n++) {
+    try {
+      return await attempt();
+    } catch (err) {
+      if (signal.aborted || n >= UPLOAD_RETRY_ATTEMPTS) throw err;
+      await sleep(500 * 2 ** (n - 1) * (0.5 + Math.random()), signal);
+    }
+  }
+};
+
+// Creates the project or version, then reads the file in the background so the
+// upload slot frees up straight away.
+const finishUpload = async (target: UploadTarget, videoUrl: string, file: File) => {
+  if (target.type === 'project') {
+    const project = await DatabaseService.createProject({
+      editorId: target.editorId,
+      editorName: target.editorName,
+      title: target.title,
+      videoUrl,
+      status: 'processing',
+      duration: 0,
+    });
+    MediaService.process({ uid: target.editorId, displayName: target.editorName }, project.id, 'v1', file);
+  } else {
+    const version = await DatabaseService.addVersion(target.actor, target.projectId, { videoUrl, duration: 0 }, target.carryForward);
+    MediaService.process(target.actor, target.projectId, version.id, file);
+  }
+};
+
+// Pausing aborts a run, but local backends finish the chunk in hand, and a
+// resume can start the next run before that. Each run owns the task only
+// until its signal aborts: after every await it checks before writing.
+const runUpload = async (id: string) => {
+  const file = uploadFiles.get(id)!;
+  const controller = new AbortController();
+  uploadControllers.set(id, controller);
+  const { signal } = controller;
+  const backend = getBlobBackend();
+
+  let task = patchUploadTask(id, { status: 'uploading', error: undefined });
+  try {
+    if (task.backend !== backend.name) {
+      // Saved parts live in a different backend (config changed); start over.
+      task = patchUploadTask(id, { backend: backend.name, session: undefined, parts: [], uploaded: 0, url: undefined });
+    }
+    if (!task.url) {
+      if (!task.session) {
+        const session = await withRetry(() => backend.begin(task.key, file, signal), signal);
+        signal.throwIfAborted();
+        task = patchUploadTask(id, { session });
+      }
+      const chunkCount = Math.max(1, Math.ceil(file.size / backend.chunkSize));
+      for (let index = task.parts.length; index < chunkCount; index++) {
+        signal.throwIfAborted(); // Local backends ignore the signal mid-chunk
+        const start = index * backend.chunkSize;
+        const chunk = file.slice(start, start + backend.chunkSize);
+        const part = await withRetry(() => backend.putChunk(task.session!, task.key, index, chunk,
+          bytes => { if (!signal.aborted) patchUploadTask(id, { uploaded: start + bytes }); }, signal), signal);
+        signal.throwIfAborted();
+        task = patchUploadTask(id, { parts: [...task.parts, part], uploaded: start + chunk.size });
+      }
+      const url = await withRetry(() => backend.complete(task.session!, task.key, task.parts), signal);
+      signal.throwIfAborted();
+      task = patchUploadTask(id, { url });
+    }
+    await finishUpload(task.target, task.url!, file);
+    patchUploadTask(id, { status: 'done', uploaded: file.size });
+    uploadFiles.delete(id);
+  } catch (err) {
+    // Pause and cancel abort on purpose and have already updated the task.
+    if (!signal.aborted) patchUploadTask(id, { status: 'error', error: (err as Error).message });
+  } finally {
+    if (uploadControllers.get(id) === controller) uploadControllers.delete(id);
+    pumpUploads();
+  }
+};
+
+const pumpUploads = () => {
+  const active = uploadTasks.filter(t => t.status === 'uploading').length;
+  uploadTasks
+    .filter(t => t.status === 'queued')
+    .slice(0, Math.max(0, MAX_CONCURRENT_UPLOADS - active))
+    .forEach(t => runUpload(t.id));
+};
+
+const StorageService = {
+  subscribe: (listener: (tasks: UploadTask[]) => void) => {
+    uploadListeners.add(listener);
+    listener(uploadTasks);
+    return () => { uploadListeners.delete(listener); };
+  },
+
+  // Queues a file. Picking a file that matches an interrupted upload for the
+  // same target resumes that upload instead of starting again.
+  upload: (file: File, target: UploadTarget) => {
+    const fingerprint = fileFingerprint(file);
+    const existing = uploadTasks.find(t => t.fingerprint === fingerprint && t.status === 'interrupted'
+      && JSON.stringify(t.target) === JSON.stringify(target));
+    if (existing) return StorageService.resume(existing.id, file);
+
+    const id = newId('up');
+    const task: UploadTask = {
+      id,
+      fileName: file.name,
+      fingerprint,
+      size: file.size,
+      uploaded: 0,
+      status: 'queued',
+      target,
+      backend: getBlobBackend().name,
+      key: `${id}_${file.name.replace(/[^\w.-]+/g, '_')}`,
+      parts: [],
+      createdAt: Date.now(),
+    };
+    uploadFiles.set(id, file);
+    setUploadTasks([...uploadTasks, task]);
+    pumpUploads();
+  },
+
+  pause: (id: string) => {
+    patchUploadTask(id, { status: 'paused' });
+    uploadControllers.get(id)?.abort();
+  },
+
+  // Interrupted uploads need the file handed back; it must be the same file.
+  resume: (id: string, file?: File) => {
+    const task = uploadTasks.find(t => t.id === id);
+    if (!task) return;
+    if (file) {
+      if (fileFingerprint(file) !== task.fingerprint) {
+        patchUploadTask(id, { status: 'interrupted', error: `Pick "${task.fileName}" to resume this upload` });
+        return;
+      }
+      uploadFiles.set(id, file);
+    }
+    if (!uploadFiles.has(id)) return;
+    patchUploadTask(id, { status: 'queued', error: undefined });
+    pumpUploads();
+  },
+
+  cancel: (id: string) => {
+    const task = uploadTasks.find(t => t.id === id);
+    if (!task) return;
+    uploadControllers.get(id)?.abort();
+    uploadFiles.delete(id);
+    setUploadTasks(uploadTasks.filter(t => t.id !== id));
+    if (task.session && task.status !== 'done') {
+      getBlobBackend().abort(task.session, task.key).catch(() => {});
+    }
+  },
+
+  // Drops finished uploads from the list.
+  clearCompleted: () => setUploadTasks(uploadTasks.filter(t => t.status !== 'done')),
+
+  // Stores a small generated file (poster, sprite sheet, waveform) in one go
+  // and returns its URL. Writing the same key again replaces it.
+  store: async (key: string, blob: Blob) => {
+    const backend = getBlobBackend();
+    const { signal } = new AbortController();
+    const file = new File([blob], key, { type: blob.type });
+    const session = await backend.begin(key, file, signal);
+    const parts: string[] = [];
+    for (let index = 0; index === 0 || index * backend.chunkSize < file.size; index++) {
+      const chunk = file.slice(index * backend.chunkSize, (index + 1) * backend.chunkSize);
+      parts.push(await backend.putChunk(session, key, index, chunk, () => {}, signal));
+    }
+    return backend.complete(session, key, parts);
+  },
+
+  // The file behind a URL kept in this browser, or null for remote URLs.
+  readBlob: async (url: string) => {
+    let blob: Blob | null = null;
+    try {
+      if (url.startsWith(OPFS_URL_PREFIX)) blob = await readOPFSBlob(url.slice(OPFS_URL_PREFIX.length));
+      else if (url.startsWith(IDB_BLOB_URL_PREFIX)) blob = await readIndexedDBBlob(url.slice(IDB_BLOB_URL_PREFIX.length));
+      else return null;
+    } catch (err) {
+      if ((err as DOMException).name !== 'NotFoundError') throw err;
+    }
+    if (!blob?.size) throw new Error('The file is stored in another browser');
+    return blob;
+  },
+
+  // Turns a stored URL into one a <video> or <img> element can load. Local
+  // blobs become object URLs, which the caller must revoke.
+  resolveUrl: async (url: string) => {
+    const blob = await StorageService.readBlob(url);
+    return blob ? URL.createObjectURL(blob) : url;
+  }
+};
+
+// --- Media Processing -------------------------------------------------------
+//
+// Reads an uploaded video in the browser: duration and resolution through a
+// <video> element, frame rate and codec from the MP4/QuickTime sample tables,
+// plus a poster frame and a sprite sheet for hover scrubbing.
+
+type VideoMedia = Pick<ProjectVersion, 'duration' | 'width' | 'height' | 'frameRate' | 'codec' | 'thumbnailUrl' | 'sprites' | 'waveformUrl'>;
+
+// What probe reads, before the pictures and peaks are stored.
+type ProbedMedia = Pick<VideoMedia, 'duration' | 'width' | 'height' | 'frameRate' | 'codec'> & {
+  thumbnail?: Blob;
+  sprites?: Omit<SpriteSheet, 'url'> & { image: Blob };
+  waveform?: number[];
+};
+
+const PROBE_TIMEOUT_MS = 20000;
+const THUMBNAIL_WIDTH = 480;
+const SPRITE_TILE_WIDTH = 160;
+const SPRITE_COLUMNS = 10;
+const SPRITE_MAX_FRAMES = 60;
+// Movie headers bigger than this are not worth reading just for the frame rate.
+const MAX_MOOV_SIZE = 32 * MiB;
+const WAVEFORM_BUCKETS = 1000;
+// The whole file is held in memory while its audio is decoded.
+const WAVEFORM_MAX_BYTES = 256 * MiB;
+// Linked videos are downloaded just for their audio, so only small ones are.
+const WAVEFORM_REMOTE_MAX_BYTES = 64 * MiB;
+// Low enough to keep hours of decoded audio small, plenty for a peak display.
+const WAVEFORM_SAMPLE_RATE = 8000;
+// A version still 'processing' after this long was left by a tab that closed.
+const PROCESSING_STALE_MS = 15 * 60 * 1000;
+
+const CODEC_NAMES: Record<string, string> = {
+  avc1: 'H.264', avc3: 'H.264', hvc1: 'HEVC', hev1: 'HEVC', av01: 'AV1', vp09: 'VP9',
+  apco: 'ProRes 422 Proxy', apcs: 'ProRes 422 LT', apcn: 'ProRes 422', apch: 'ProRes 422 HQ', ap4h: 'ProRes 4444',
+};
+
+const describeCodec = (codec: string) => CODEC_NAMES[codec.split('.')[0]] || codec;
+
+// -- MP4 / QuickTime box parsing --
+
+interface Mp4Box { type: string; start: number; end: number } // start/end of the payload
+
+const fourcc = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+// Size 1 means a 64-bit size follows the type; size 0 runs to the end.
+const readBoxHeader = (view: DataView, offset: number, end: number) => {
+  let size = view.getUint32(offset);
+  let headerSize = 8;
+  if (size === 1) {
+    size = view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12);
+    headerSize = 16;
+  } else if (size === 0) {
+    size = end - offset;
+  }
+  return { type: fourcc(view, offset + 4), size, headerSize };
+};
+
+const childBoxes = (view: DataView, start: number, end: number) => {
+  const boxes: Mp4Box[] = [];
+  for (let offset = start; offset + 8 <= end;) {
+    const { type, size, headerSize } = readBoxHeader(view, offset, end);
+    if (size < headerSize) break;
+    boxes.push({ type, start: offset + headerSize, end: Math.min(end, offset + size) });
+    offset += size;
+  }
+  return boxes;
+};
+
+const findBox = (view: DataView, parent: Mp4Box | undefined, type: string) =>
+  parent && childBoxes(view, parent.start, parent.end).find(b => b.type === type);
+
+// Walks the top level without reading the media data, which can be gigabytes.
+const readMoovBox = async (file: Blob) => {
+  for (let offset = 0; offset + 8 <= file.size;) {
+    const view = new DataView(await file.slice(offset, offset + 16).arrayBuffer());
+    const { type, size, headerSize } = readBoxHeader(view, 0, file.size - offset);
+    if (size < headerSize) return null;
+    if (type === 'moov') {
+      return size > MAX_MOOV_SIZE ? null : new DataView(await file.slice(offset, offset + size).arrayBuffer());
+    }
+    offset += size;
+  }
+  return null;
+};
+
+const hex2 = (n: number) => n.toString(16).padStart(2, '0');
+
+// Frame rate and codec of the first video track, or null for other containers.
+const readMp4VideoTrack = async (file: Blob): Promise<Pick<VideoMedia, 'frameRate' | 'codec'> | null> => {
+  const view = await readMoovBox(file);
+  if (!view) return null;
+  const { start, end } = childBoxes(view, 0, view.byteLength)[0];
+  for (const trak of childBoxes(view, start, end).filter(b => b.type === 'trak')) {
+    const mdia = findBox(view, trak, 'mdia');
+    const hdlr = findBox(view, mdia, 'hdlr');
+    if (!hdlr || fourcc(view, hdlr.start + 8) !== 'vide') continue;
+
+    const mdhd = findBox(view, mdia, 'mdhd');
+    const stbl = findBox(view, findBox(view, mdia, 'minf'), 'stbl');
+    const stsd = findBox(view, stbl, 'stsd');
+    const stts = findBox(view, stbl, 'stts');
+    if (!mdhd || !stsd || !stts) return null;
+
+    // Codec: the first sample entry; avcC carries the H.264 profile and level.
+    const entry = childBoxes(view, stsd.start + 8, stsd.end)[0];
+    let codec = entry?.type;
+    if (entry && (codec === 'avc1' || codec === 'avc3')) {
+      // Visual sample entries have 78 bytes of fixed fields before child boxes.
+      const avcC = childBoxes(view, entry.start + 78, entry.end).find(b => b.type === 'avcC');
+      if (avcC) codec += `.${hex2(view.getUint8(avcC.start + 1))}${hex2(view.getUint8(avcC.start + 2))}${hex2(view.getUint8(avcC.start + 3))}`;
+    }
+
+    // Frame rate: samples per second of media time, from the time-to-sample table.
+    const timescale = view.getUint32(mdhd.start + (view.getUint8(mdhd.start) === 1 ? 20 : 12));
+    let samples = 0;
+    let ticks = 0;
+    const entryCount = view.getUint32(stts.start + 4);
+    for (let i = 0; i < entryCount; i++) {
+      const count = view.getUint32(stts.start + 8 + i * 8);
+      samples += count;
+      ticks += count * view.getUint32(stts.start + 12 + i * 8);
+    }
+    const frameRate = ticks ? snapFrameRate(samples * timescale / ticks) : undefined;
+    return { codec, frameRate };
+  }
+  return null;
+};
+
+// Maps measured rates like 23.9760 onto the FRAME_RATES the player offers.
+const snapFrameRate = (measured: number) => {
+  const match = FRAME_RATES.find(fps => Math.abs(exactFrameRate(fps) - measured) < 0.01);
+  return match ?? Math.round(measured * 1000) / 1000;
+};
+
+// -- Frame capture --
+
+const MEDIA_ERRORS: Record<number, string> = {
+  1: 'Loading was aborted',
+  2: 'A network error interrupted loading',
+  3: 'The video could not be decoded',
+  4: 'This video format is not supported by the browser',
+};
+
+const withTimeout = <T,>(promise: Promise<T>, message: string) => new Promise<T>((resolve, reject) => {
+  const timer = setTimeout(() => reject(new Error(message)), PROBE_TIMEOUT_MS);
+  promise.then(resolve, reject).finally(() => clearTimeout(timer));
+});
+
+const loadProbeVideo = (src: string, crossOrigin: boolean) => withTimeout(new Promise<HTMLVideoElement>((resolve, reject) => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  if (crossOrigin) video.crossOrigin = 'anonymous';
+  // loadeddata rather than loadedmetadata: it proves a frame actually decodes.
+  video.onloadeddata = () => resolve(video);
+  video.onerror = () => reject(new Error(MEDIA_ERRORS[video.error?.code || 0] || 'The video could not be loaded'));
+  video.src = src;
+}), 'Timed out reading the video');
+
+const seekProbeVideo = (video: HTMLVideoElement, time: number) => withTimeout(new Promise<void>(resolve => {
+  video.onseeked = () => resolve();
+  video.currentTime = time;
+}), 'Timed out seeking the video');
+
+const canvasToJpeg = (canvas: HTMLCanvasElement, quality: number) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the frame')), 'image/jpeg', quality);
+});
+
+const captureThumbnail = async (video: HTMLVideoElement, duration: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = Math.round(THUMBNAIL_WIDTH * video.videoHeight / video.videoWidth);
+  // A little way in, to skip fade-ins and slates.
+  await seekProbeVideo(video, Math.min(1, duration * 0.1));
+  canvas.getContext('2d')!.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvasToJpeg(canvas, 0.75);
+};
+
+const captureSprites = async (video: HTMLVideoElement, duration: number): Promise<NonNullable<ProbedMedia['sprites']>> => {
+  const count = Math.max(1, Math.min(SPRITE_MAX_FRAMES, Math.floor(duration)));
+  const interval = duration / count;
+  const columns = Math.min(SPRITE_COLUMNS, count);
+  const tileHeight = Math.round(SPRITE_TILE_WIDTH * video.videoHeight / video.videoWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = columns * SPRITE_TILE_WIDTH;
+  canvas.height = Math.ceil(count / columns) * tileHeight;
+  const ctx = canvas.getContext('2d')!;
+  for (let i = 0; i < count; i++) {
+    await seekProbeVideo(video, (i + 0.5) * interval);
+    ctx.drawImage(video, (i % columns) * SPRITE_TILE_WIDTH, Math.floor(i / columns) * tileHeight, SPRITE_TILE_WIDTH, tileHeight);
+  }
+  return { image: await canvasToJpeg(canvas, 0.6), columns, count, interval };
+};
+
+// -- Audio waveform --
+
+const computePeaks = (audio: AudioBuffer) => {
+  const channels = Array.from({ length: audio.numberOfChannels }, (_, i) => audio.getChannelData(i));
+  const bucketSize = Math.max(1, Math.floor(audio.length / WAVEFORM_BUCKETS));
+  const peaks: number[] = [];
+  for (let b = 0; b < WAVEFORM_BUCKETS; b++) {
+    let peak = 0;
+    const end = Math.min(audio.length, (b + 1) * bucketSize);
+    for (const data of channels) {
+      for (let i = b * bucketSize; i < end; i++) peak = Math.max(peak, Math.abs(data[i]));
+    }
+    peaks.push(peak);
+  }
+  // Normalise so quiet mixes still show their shape; two decimals keep it small.
+  const loudest = Math.max(...peaks) || 1;
+  return peaks.map(p => Math.round((p / loudest) * 100) / 100);
+};
+
+// Rejects when the file has no audio track or the browser cannot decode it.
+const readWaveform = async (file: Blob) => {
+  if (file.size > WAVEFORM_MAX_BYTES) throw new Error('Too large to decode for a waveform');
+  const context = new OfflineAudioContext(1, 1, WAVEFORM_SAMPLE_RATE);
+  return computePeaks(await context.decodeAudioData(await file.arrayBuffer()));
+};
+
+const waveformCache = new Map<string, Promise<number[]>>();
+
+// Shares one load per URL for the session. Failures are dropped so the next
+// caller tries again.
+const cachedWaveform = (url: string, load: () => Promise<number[]>) => {
+  if (!waveformCache.has(url)) {
+    const peaks = load();
+    waveformCache.set(url, peaks);
+    peaks.catch(() => { if (waveformCache.get(url) === peaks) waveformCache.delete(url); });
+  }
+  return waveformCache.get(url)!;
+};
+// `${projectId}_${versionId}` of versions this tab is processing right now.
+const processingVersions = new Set<string>();
+// Same keys, for decoded waveforms this tab has saved or is saving.
+const savingWaveforms = new Set<string>();
+
+const MediaService = {
+  // Throws when the browser cannot decode the video.
+  probe: async (source: Blob | string): Promise<ProbedMedia> => {
+    const src = typeof source === 'string' ? source : URL.createObjectURL(source);
+    try {
+      let video: HTMLVideoElement;
+      let canCapture = true;
+      try {
+        video = await loadProbeVideo(src, typeof source === 'string');
+      } catch (err) {
+        // Linked videos without CORS headers still play, but their frames
+        // cannot be read back, so only the metadata is available.
+        if (typeof source !== 'string') throw err;
+        video = await loadProbeVideo(src, false);
+        canCapture = false;
+      }
+      if (!video.videoWidth) throw new Error('The file has no video track');
+
+      const duration = isFinite(video.duration) ? video.duration : 0;
+      const media: ProbedMedia = { duration, width: video.videoWidth, height: video.videoHeight };
+      if (typeof source !== 'string') {
+        Object.assign(media, await readMp4VideoTrack(source).catch(() => null));
+        media.waveform = await readWaveform(source).catch(() => undefined);
+      }
+      if (canCapture) {
+        media.thumbnail = await captureThumbnail(video, duration);
+        if (duration > 0) media.sprites = await captureSprites(video, duration);
+      }
+      video.removeAttribute('src');
+      video.load(); // Releases the decoder
+      return media;
+    } finally {
+      if (typeof source !== 'string') URL.revokeObjectURL(src);
+    }
+  },
+
+  // Peaks saved by process, cached for the session like decoded ones.
+  loadWaveform: (url: string) => cachedWaveform(url, async () => {
+    const playable = await StorageService.resolveUrl(url);
+    try {
+      const res = await fetch(playable);
+      if (!res.ok) throw new Error(`Could not fetch the waveform (${res.status})`);
+      return await res.json() as number[];
+    } finally {
+      if (playable !== url) URL.revokeObjectURL(playable);
+    }
+  }),
+
+  // For versions processed before waveforms existed, or linked by URL. Needs
+  // the server to allow CORS and, for remote files, a Content-Length under
+  // WAVEFORM_REMOTE_MAX_BYTES.
+  waveformFromUrl: (url: string) => cachedWaveform(url, async () => {
+    const playable = await StorageService.resolveUrl(url);
+    try {
+      const res = await fetch(playable);
+      if (!res.ok) throw new Error(`Could not fetch the video (${res.status})`);
+      const size = Number(res.headers.get('Content-Length'));
+      if (/^https?:/.test(playable) && !(size > 0 && size <= WAVEFORM_REMOTE_MAX_BYTES)) {
+        res.body?.cancel();
+        throw new Error('Too large, or of unknown size, to download for a waveform');
+      }
+      return await readWaveform(await res.blob());
+    } finally {
+      if (playable !== url) URL.revokeObjectURL(playable);
+    }
+  }),
+
+  // Stores peaks from waveformFromUrl with the version, so later sessions
+  // load them instead of the video. Once per version at a time; never rejects.
+  saveWaveform: async (actor: Actor, projectId: string, versionId: string, peaks: number[]) => {
+    const key = `${projectId}_${versionId}`;
+    if (savingWaveforms.has(key)) return;
+    savingWaveforms.add(key);
+    try {
+      const waveformUrl = await StorageService.store(`${key}_waveform.json`, new Blob([JSON.stringify(peaks)], { type: 'application/json' }));
+      waveformCache.set(waveformUrl, Promise.resolve(peaks));
+      await DatabaseService.saveWaveform(actor, projectId, versionId, waveformUrl);
+    } catch (e) {
+      savingWaveforms.delete(key);
+      console.warn(`Could not save the waveform of ${key}`, e);
+    }
+  },
+
+  // Probes a version's video, stores its poster, sprite sheet and waveform,
+  // and records the outcome on the project. Never rejects, so callers can
+  // leave it running in the background.
+  process: async (actor: Actor, projectId: string, versionId: string, source: File | string) => {
+    const key = `${projectId}_${versionId}`;
+    processingVersions.add(key);
+    try {
+      const local = typeof source === 'string' ? await StorageService.readBlob(source) : null;
+      const { thumbnail, sprites, waveform, ...read } = await MediaService.probe(local || source);
+      const media: VideoMedia = read;
+      if (thumbnail) media.thumbnailUrl = await StorageService.store(`${key}_poster.jpg`, thumbnail);
+      if (sprites) {
+        const { image, ...sheet } = sprites;
+        media.sprites = { ...sheet, url: await StorageService.store(`${key}_sprites.jpg`, image) };
+      }
+      if (waveform) {
+        media.waveformUrl = await StorageService.store(`${key}_waveform.json`, new Blob([JSON.stringify(waveform)], { type: 'application/json' }));
+      }
+      await DatabaseService.finishProcessing(actor, projectId, versionId, { media });
+    } catch (err) {
+      await DatabaseService.finishProcessing(actor, projectId, versionId, { error: (err as Error).message })
+        .catch(e => console.error(`Could not record the processing outcome of ${key}`, e));
+    } finally {
+      processingVersions.delete(key);
+    }
+  },
+
+  // Versions left 'processing' by a tab that closed before it finished are
+  // processed again from the stored video, or marked failed if that is gone.
+  resumeStale: (project: Project, actor: Actor) => {
+    for (const v of project.versions) {
+      if (v.status !== 'processing' || processingVersions.has(`${project.id}_${v.id}`)) continue;
+      if (Date.now() - v.createdAt > PROCESSING_STALE_MS) MediaService.process(actor, project.id, v.id, v.videoUrl);
+    }
+  }
+};
+
+// --- Comment Threads --------------------------------------------------------
+
+interface CommentThread {
+  root: Comment;
+  replies: Comment[];
+}
+
+// Groups a timestamp-sorted comment list into threads. Deleted replies are
+// dropped; a deleted root only survives as a placeholder while it has replies.
+const buildThreads = (comments: Comment[]): CommentThread[] => {
+  const replies = new Map<string, Comment[]>();
+  comments.forEach(c => {
+    if (!c.parentId || c.deletedAt) return;
+    replies.set(c.parentId, [...(replies.get(c.parentId) || []), c]);
+  });
+  return comments
+    .filter(c => !c.parentId)
+    .map(root => ({ root, replies: replies.get(root.id) || [] }))
+    .filter(t => !t.root.deletedAt || t.replies.length > 0);
+};
+
+// --- Share Links ------------------------------------------------------------
+//
+// A share link is scoped to the project's publicId: regenerating it kills every
+// old link. Expiry and password are enforced here in the client, which is all the
+// Spark plan allows; pair them with Firestore rules when deploying for real.
+
+type ShareAccess = 'ok' | 'not_found' | 'revoked' | 'expired' | 'password_required';
+
+const SHARE_PASSWORD_ITERATIONS = 600000;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const sha256Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return toHex(new Uint8Array(digest));
+};
+
+const derivePasswordKey = async (password: string, { salt, iterations }: PasswordVerifier) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(salt), iterations }, material, 256);
+  return toHex(new Uint8Array(bits));
+};
+
+const createPasswordVerifier = async (password: string): Promise<PasswordVerifier> => {
+  const params = { salt: toHex(crypto.getRandomValues(new Uint8Array(16))), iterations: SHARE_PASSWORD_ITERATIONS, verifier: '' };
+  return { ...params, verifier: await sha256Hex(await derivePasswordKey(password, params)) };
+};
+
+// Unlocks are remembered per tab as the derived key. What getAccess checks is
+// the verifier of a key this tab has proven, so changing the password locks
+// out everyone who entered the old one.
+const shareUnlockKey = (project: Project) => `cf_share_unlocked:${project.publicId}`;
+const unlockedShares = new Map<string, string>(); // publicId -> verifier
+
+const ShareService = {
+  getShareUrl: (project: Project) => `${window.location.origin}/review/${project.publicId}`,
+
+  getInviteUrl: (project: Project, token: string) => `${window.location.origin}/join/${project.id}/${token}`,
+
+  getAccess: (project: Project | null): ShareAccess => {
+    if (!project) return 'not_found';
+    if (project.share?.revoked) return 'revoked';
+    if (project.share?.expiresAt && project.share.expiresAt < Date.now()) return 'expired';
+    const lock = project.share?.password;
+    if (lock && (!lock.verifier || unlockedShares.get(project.publicId) !== lock.verifier)) return 'password_required';
+    return 'ok';
+  },
+
+  unlock: async (project: Project, password: string) => {
+    const lock = project.share?.password;
+    if (!lock?.verifier) return false;
+    const key = await derivePasswordKey(password, lock);
+    if (await sha256Hex(key) !== lock.verifier) return false;
+    sessionStorage.setItem(shareUnlockKey(project), key);
+    unlockedShares.set(project.publicId, lock.verifier);
+    return true;
+  },
+
+  // Re-checks a key this tab stored earlier, e.g. after a reload.
+  restoreUnlock: async (project: Project) => {
+    const key = sessionStorage.getItem(shareUnlockKey(project));
+    const lock = project.share?.password;
+    if (key && lock?.verifier && await sha256Hex(key) === lock.verifier) unlockedShares.set(project.publicId, lock.verifier);
+  },
+
+  copyLink: async (project: Project) => {
+    await navigator.clipboard.writeText(ShareService.getShareUrl(project));
+  }
+};
+
+// --- Notifications ----------------------------------------------------------
+//
+// The activity log feeds the dashboard's notification centre. What each user
+// has read is kept per project in this browser. Digests bundle other people's
+// activity since the last one and send it to a webhook, or as email through
+// MAIL_PROXY_URL (an SMTP relay in the dev server, see vite.config.ts). There
+// is no backend on the Spark plan, so digests go out while the dashboard is open.
+
+const describeActivity = (e: ActivityEvent) => {
+  switch (e.type) {
+    case 'comment_added': return `${e.actorName} commented`;
+    case 'comment_resolved': return `${e.actorName} resolved a comment`;
+    case 'comment_reopened': return `${e.actorName} reopened a comment`;
+    case 'version_uploaded': return `${e.actorName} uploaded ${e.versionId}`;
+    case 'version_approved': return `${e.actorName} approved ${e.versionId}`;
+    case 'changes_requested': return `${e.actorName} requested changes on ${e.versionId}`;
+  }
+};
+
+const readMarksStorageKey = (uid: string) => `cf_activity_read:${uid}`;
+
+const NotificationService = {
+  // projectId -> when the user last caught up on it (epoch ms)
+  getReadMarks: (uid: string) => readStoredJson<Record<string, number>>(readMarksStorageKey(uid)) || {},
+
+  markRead: (uid: string, projectIds: string[]) => {
+    const marks = NotificationService.getReadMarks(uid);
+    const now = Date.now();
+    projectIds.forEach(id => { marks[id] = now; });
+    localStorage.setItem(readMarksStorageKey(uid), JSON.stringify(marks));
+    return marks;
+  },
+
+  // Your own actions never count as unread.
+  isUnread: (uid: string, marks: Record<string, number>, e: ActivityEvent) =>
+    e.actorId !== uid && e.createdAt > (marks[e.projectId] || 0),
+};
+
+type DigestChannel = 'email' | 'webhook';
+type DigestFrequency = 'hourly' | 'daily';
+
+interface DigestSettings {
+  enabled: boolean;
+  channel: DigestChannel; // Email goes to the account's own address
+  webhookUrl?: string;
+  frequency: DigestFrequency;
+  lastSentAt: number; // The next digest covers activity after this
+  lastError?: string;
+}
+
+interface Digest {
+  subject: string;
+  text: string;
+  events: ActivityEvent[];
+}
+
+const DIGEST_INTERVALS: Record<DigestFrequency, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+};
+
+const DIGEST_CHECK_INTERVAL = 60 * 1000;
+
+const MAIL_PROXY_URL = process.env.MAIL_PROXY_URL || '/api/mail';
+
+const digestStorageKey = (uid: string) => `cf_digest:${uid}`;
+
+// Plain text, grouped by project, oldest first within each.
+const buildDigest = (projects: Project[], events: ActivityEvent[]): Digest => {
+  const projectCount = new Set(events.map(e => e.projectId)).size;
+  const subject = events.length === 0
+    ? 'CreatorFeedback: no new activity'
+    : `CreatorFeedback: ${events.length} update${events.length === 1 ? '' : 's'} on ${projectCount} project${projectCount === 1 ? '' : 's'}`;
+  const sections = projects
+    .map(p => ({ project: p, events: events.filter(e => e.projectId === p.id).reverse() }))
+    .filter(({ events }) => events.length > 0)
+    .map(({ project, events }) => [
+      project.title,
+      `${window.location.origin}/project/${project.id}`,
+      ...events.flatMap(e => [
+        `  ${new Date(e.createdAt).toLocaleString()}  ${describeActivity(e)}`,
+        ...(e.text ? [`    "${e.text}"`] : []),
+      ]),
+    ].join('\n'));
+  const text = sections.length > 0 ? sections.join('\n\n') : 'Nothing new since the last digest.';
+  return { subject, text, events };
+};
+
+const DigestService = {
+  getSettings: (uid: string) => readStoredJson<DigestSettings>(digestStorageKey(uid)),
+
+  saveSettings: (uid: string, settings: DigestSettings) => {
+    localStorage.setItem(digestStorageKey(uid), JSON.stringify(settings));
+  },
+
+  // Webhooks get the digest as JSON; its `text` field suits Slack-style hooks.
+  deliver: async (user: User, settings: DigestSettings, digest: Digest) => {
+    if (settings.channel === 'email' && !user.email) throw new Error('Add an email to your account to get email digests');
+    const res = settings.channel === 'webhook'
+      ? await fetch(settings.webhookUrl!, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(digest),
+        })
+      : await fetch(MAIL_PROXY_URL, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ to: user.email, subject: digest.subject, text: digest.text }),
+        });
+    if (!res.ok) throw new Error(`Digest delivery failed (${res.status}): ${await res.text()}`);
+  },
+
+  // Sends once the chosen interval has passed and there is something to say.
+  // `force` sends now, even when empty, so the settings can be tested.
+  send: async (user: User, projects: Project[], force = false) => {
+    const settings = DigestService.getSettings(user.uid);
+    if (!settings || (!settings.enabled && !force)) return false;
+    const now = Date.now();
+    if (!force && now - settings.lastSentAt < DIGEST_INTERVALS[settings.frequency]) return false;
+    const events = (await DatabaseService.getActivity(projects.map(p => p.id), settings.lastSentAt))
+      .filter(e => e.actorId !== user.uid);
+    if (events.length === 0 && !force) {
+      DigestService.saveSettings(user.uid, { ...settings, lastSentAt: now });
+      return false;
+    }
+    try {
+      await DigestService.deliver(user, settings, buildDigest(projects, events));
+    } catch (e) {
+      DigestService.saveSettings(user.uid, { ...settings, lastError: (e as Error).message });
+      throw e;
+    }
+    DigestService.saveSettings(user.uid, { ...settings, lastSentAt: now, lastError: undefined });
+    return true;
+  },
+};
+
+// --- Live Sessions ----------------------------------------------------------
+//
+// Reviewers on a call can go live on a project: everyone sees who is there and
+// where their playhead is, followers play, pause and seek along with the host,
+// and strokes show while they're being drawn. Each participant broadcasts its
+// whole state about once a second and on every change, so there is nothing to
+// replay for late joiners. Messages go through the WebSocket relay at
+// LIVE_RELAY_URL (served by the dev server, see vite.config.ts); when that
+// can't be reached, tabs on the same machine still meet over BroadcastChannel.
+// The room is the project's random liveRoom. The relay cannot see projects, so
+// that secret is the only key; messages from others are checked before use.
+
+interface LivePeer {
+  id: string; // One per tab, so the same person in two windows shows twice
+  name: string;
+  color: string;
+}
+
+interface LivePresence {
+  peer: LivePeer;
+  versionId: string;
+  time: number;
+  playing: boolean;
+  hostSince?: number; // Set while hosting; the most recent claim wins
+  strokes: Stroke[]; // Drawing in progress, in overlay space
+}
+
+type LiveMessage =
+  | { type: 'presence'; presence: LivePresence }
+  | { type: 'leave'; peerId: string };
+
+type LiveTransportKind = 'relay' | 'local';
+
+interface LiveTransport {
+  kind: LiveTransportKind;
+  send: (message: LiveMessage) => void;
+  close: () => void;
+}
+
+const LIVE_RELAY_URL = process.env.LIVE_RELAY_URL || '/api/live';
+const LIVE_CONNECT_TIMEOUT = 3000;
+const LIVE_HEARTBEAT = 1000;
+const LIVE_PEER_TIMEOUT = 5000; // Drop peers we haven't heard from in this long
+const LIVE_SEND_INTERVAL = 50; // Throttle for playhead and stroke updates
+const LIVE_PLAYING_DRIFT = 0.5; // Seconds a follower may lag the host during playback before it jumps
+
+const LIVE_STROKE_TOOLS: StrokeTool[] = ['pen', 'arrow', 'rect', 'ellipse', 'text'];
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isLivePoint = (p: unknown) => isRecord(p) && isFiniteNumber(p.x) && isFiniteNumber(p.y)
+  && (p.pressure === undefined || isFiniteNumber(p.pressure));
+
+const isLiveStroke = (s: unknown): s is Stroke => isRecord(s)
+  && (s.tool === undefined || LIVE_STROKE_TOOLS.some(tool => tool === s.tool))
+  && typeof s.color === 'string' && isFiniteNumber(s.width)
+  && (s.text === undefined || typeof s.text === 'string')
+  && Array.isArray(s.points) && s.points.every(isLivePoint);
+
+const isLiveMessage = (m: unknown): m is LiveMessage => {
+  if (!isRecord(m)) return false;
+  if (m.type === 'leave') return typeof m.peerId === 'string';
+  if (m.type !== 'presence' || !isRecord(m.presence)) return false;
+  const { peer, versionId, time, playing, hostSince, strokes } = m.presence;
+  return isRecord(peer) && typeof peer.id === 'string' && typeof peer.name === 'string' && typeof peer.color === 'string'
+    && typeof versionId === 'string' && isFiniteNumber(time) && typeof playing === 'boolean'
+    && (hostSince === undefined || isFiniteNumber(hostSince))
+    && Array.isArray(strokes) && strokes.every(isLiveStroke);
+};
+
+// Drops anything that isn't JSON or doesn't look like a LiveMessage.
+const receiveLiveMessage = (data: unknown, onMessage: (message: LiveMessage) => void) => {
+  let message: unknown;
+  try {
+    message = typeof data === 'string' ? JSON.parse(data) : data;
+  } catch {
+    return;
+  }
+  if (isLiveMessage(message)) onMessage(message);
+};
+
+const liveRelayUrl = (room: string) => {
+  const url = new URL(LIVE_RELAY_URL, window.location.href);
+  if (url.protocol === 'http:') url.protocol = 'ws:';
+  if (url.protocol === 'https:') url.protocol = 'wss:';
+  url.searchParams.set('room', room);
+  return url.href;
+};
+
+// Resolves once connected. onDrop fires if the relay goes away afterwards.
+const openRelayTransport = (room: string, onMessage: (message: LiveMessage) => void, onDrop: () => void) =>
+  new Promise<LiveTransport>((resolve, reject) => {
+    const socket = new WebSocket(liveRelayUrl(room));
+    let closing = false;
+    const timer = setTimeout(() => {
+      socket.close();
+      reject(new Error('Live relay did not answer'));
+    }, LIVE_CONNECT_TIMEOUT);
+    socket.onopen = () => {
+      clearTimeout(timer);
+      socket.onclose = () => { if (!closing) onDrop(); };
+      resolve({
+        kind: 'relay',
+        send: message => { if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message)); },
+        close: () => { closing = true; socket.close(); },
+      });
+    };
+    socket.onerror = () => {
+      clearTimeout(timer);
+      reject(new Error('Live relay unavailable'));
+    };
+    socket.onmessage = (e: MessageEvent) => receiveLiveMessage(e.data, onMessage);
+  });
+
+const openLocalTransport = (room: string, onMessage: (message: LiveMessage) => void): LiveTransport => {
+  const channel = new BroadcastChannel(`creator-feedback:live:${room}`);
+  channel.onmessage = (e: MessageEvent) => receiveLiveMessage(e.data, onMessage);
+  return {
+    kind: 'local',
+    send: message => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+};
+
+// Prefers the relay and falls back to BroadcastChannel when it can't be
+// reached or drops mid-session.
+const joinLiveRoom = (room: string, onMessage: (message: LiveMessage) => void, onTransport: (kind: LiveTransportKind) => void) => {
+  let transport: LiveTransport | null = null;
+  let closed = false;
+
+  const useLocal = () => {
+    if (closed) return;
+    transport = openLocalTransport(room, onMessage);
+    onTransport('local');
+  };
+
+  openRelayTransport(room, onMessage, useLocal).then(relay => {
+    if (closed) return relay.close();
+    transport = relay;
+    onTransport('relay');
+  }, useLocal);
+
+  return {
+    send: (message: LiveMessage) => transport?.send(message),
+    close: () => {
+      closed = true;
+      transport?.close();
+    },
+  };
+};
+
+// The presence of whoever claimed host most recently, if anyone has.
+const findLiveHost = (presences: LivePresence[]) => presences
+  .filter(p => p.hostSince)
+  .reduce<LivePresence | null>((host, p) => !host || p.hostSince! > host.hostSince! ? p : host, null);
+
+// Joins `room` while it is set and keeps everyone else's presence current.
+// `state` is this tab's part; it is sent on change (throttled) and on a heartbeat.
+const useLiveSession = (room: string | null, peer: LivePeer, state: Omit<LivePresence, 'peer' | 'hostSince'>) => {
+  const [peers, setPeers] = useState<LivePresence[]>([]);
+  const [transport, setTransport] = useState<LiveTransportKind | null>(null);
+  const [hostSince, setHostSince] = useState<number | undefined>();
+  const sessionRef = useRef<ReturnType<typeof joinLiveRoom> | null>(null);
+  const seenRef = useRef(new Map<string, number>()); // peer id -> when we last heard from them
+  const presenceRef = useRef<LivePresence>({ peer, hostSince, ...state });
+  presenceRef.current = { peer, hostSince, ...state };
+  const lastSentRef = useRef(0);
+  const pendingRef = useRef<number | null>(null);
+
+  const publish = useCallback(() => {
+    if (pendingRef.current !== null) {
+      clearTimeout(pendingRef.current);
+      pendingRef.current = null;
+    }
+    lastSentRef.current = Date.now();
+    sessionRef.current?.send({ type: 'presence', presence: presenceRef.current });
+  }, []);
+
+  useEffect(() => {
+    if (!room) return;
+    const seen = seenRef.current;
+    const session = joinLiveRoom(room, message => {
+      if (message.type === 'leave') {
+        seen.delete(message.peerId);
+        setPeers(prev => prev.filter(p => p.peer.id !== message.peerId));
+        return;
+      }
+      const { presence } = message;
+      if (presence.peer.id === presenceRef.current.peer.id) return;
+      const isNew = !seen.has(presence.peer.id);
+      seen.set(presence.peer.id, Date.now());
+      setPeers(prev => [...prev.filter(p => p.peer.id !== presence.peer.id), presence]);
+      // Newcomers hear from us straight away instead of at the next heartbeat.
+      if (isNew) session.send({ type: 'presence', presence: presenceRef.current });
+    }, kind => {
+      setTransport(kind);
+      session.send({ type: 'presence', presence: presenceRef.current });
+    });
+    sessionRef.current = session;
+
+    const heartbeat = setInterval(() => {
+      publish();
+      const cutoff = Date.now() - LIVE_PEER_TIMEOUT;
+      const stale = [...seen].filter(([, at]) => at < cutoff).map(([id]) => id);
+      if (stale.length === 0) return;
+      stale.forEach(id => seen.delete(id));
+      setPeers(prev => prev.filter(p => !stale.includes(p.peer.id)));
+    }, LIVE_HEARTBEAT);
+
+    return () => {
+      clearInterval(heartbeat);
+      if (pendingRef.current !== null) clearTimeout(pendingRef.current);
+      pendingRef.current = null;
+      session.send({ type: 'leave', peerId: presenceRef.current.peer.id });
+      session.close();
+      sessionRef.current = null;
+      seen.clear();
+      setPeers([]);
+      setTransport(null);
+      setHostSince(undefined);
+    };
+  }, [room, publish]);
+
+  // Send changes as they happen, at most every LIVE_SEND_INTERVAL.
+  const stateKey = JSON.stringify([state, hostSince]);
+  useEffect(() => {
+    if (!room) return;
+    const wait = lastSentRef.current + LIVE_SEND_INTERVAL - Date.now();
+    if (wait <= 0) publish();
+    else if (pendingRef.current === null) pendingRef.current = window.setTimeout(publish, wait);
+  }, [room, stateKey, publish]);
+
+  const self: LivePresence = presenceRef.current;
+  const host = room ? findLiveHost([self, ...peers]) : null;
+
+  // Someone else took over: stop claiming, so we follow them from now on.
+  useEffect(() => {
+    if (hostSince && host && host.peer.id !== peer.id) setHostSince(undefined);
+  }, [hostSince, host?.peer.id, peer.id]);
+
+  return {
+    peers,
+    transport,
+    host,
+    isHost: !!host && host.peer.id === peer.id,
+    claimHost: () => setHostSince(Date.now()),
+    releaseHost: () => setHostSince(undefined),
+  };
+};
+
+// --- Review Exports ---------------------------------------------------------
+//
+// Writes a version's notes as markers an NLE can import, or as plain data.
+// One marker per thread: replies are folded into the note text. Timecodes
+// follow the project frame rate, optionally offset to start at 01:00:00:00
+// like most edit timelines do.
+
+type ExportFormat = 'edl' | 'resolve-edl' | 'resolve-csv' | 'xml' | 'csv' | 'json';
+
+const EXPORT_FORMATS: { id: ExportFormat, label: string, extension: string, mime: string }[] = [
+  { id: 'edl', label: 'CMX3600 EDL (locators)', extension: 'edl', mime: 'text/plain' },
+  { id: 'resolve-edl', label: 'DaVinci Resolve marker EDL', extension: 'edl', mime: 'text/plain' },
+  { id: 'resolve-csv', label: 'DaVinci Resolve marker CSV', extension: 'csv', mime: 'text/csv' },
+  { id: 'xml', label: 'Final Cut Pro 7 / Premiere XML', extension: 'xml', mime: 'application/xml' },
+  { id: 'csv', label: 'CSV', extension: 'csv', mime: 'text/csv' },
+  { id: 'json', label: 'JSON', extension: 'json', mime: 'application/json' },
+];
+
+interface ExportOptions {
+  format: ExportFormat;
+  unresolvedOnly?: boolean;
+  startAtOneHour?: boolean; // Offset timecodes to 01:00:00:00
+}
+
+interface ExportMarker {
+  index: number; // 1-based
+  comment: Comment; // Thread root
+  replies: Comment[];
+  inFrame: number;
+  outFrame: number; // Exclusive; point notes last one frame
+  isRange: boolean;
+  text: string; // Root text followed by the replies
+}
+
+// 01:00:00:00 in frames. Drop-frame skips frame numbers, so an hour of it is
+// fewer frames than nominal fps * 3600.
+const oneHourFrames = (fps: number) =>
+  isDropFrame(fps) ? Math.round(exactFrameRate(fps) * 600) * 6 : Math.round(fps) * 3600;
+
+const frameToTimecode = (frame: number, fps: number) => formatTimecode(frameToTime(frame, fps), fps);
+
+const buildExportMarkers = (comments: Comment[], fps: number, options: ExportOptions): ExportMarker[] => {
+  const offset = options.startAtOneHour ? oneHourFrames(fps) : 0;
+  return buildThreads(comments)
+    .filter(t => !options.unresolvedOnly || !t.root.resolved)
+    .map((t, i) => {
+      const inFrame = timeToFrame(t.root.timestamp, fps) + offset;
+      const isRange = isRangeComment(t.root);
+      const outFrame = isRange ? Math.max(inFrame + 1, timeToFrame(t.root.endTimestamp!, fps) + offset) : inFrame + 1;
+      const text = [
+        t.root.deletedAt ? '[deleted]' : t.root.text,
+        ...t.replies.map(r => `${r.authorName}: ${r.text}`),
+      ].join('\n');
+      return { index: i + 1, comment: t.root, replies: t.replies, inFrame, outFrame, isRange, text };
+    });
+};
+
+const singleLine = (text: string) => text.replace(/\s*\n\s*/g, ' / ').trim();
+
+// Spreadsheets run text starting with = + - @ (or a tab or CR before one) as
+// a formula; a leading apostrophe makes it plain text.
+const csvCell = (value: string | number | boolean) => {
+  const s = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+const toCsv = (rows: (string | number | boolean)[][]) => rows.map(r => r.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, ch =>
+  ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[ch]!));
+
+// Event numbers are three digits in CMX3600, so exports cap at 999 markers.
+const EDL_MAX_EVENTS = 999;
+
+const edlHeader = (title: string, fps: number) => [
+  `TITLE: ${singleLine(title).slice(0, 70)}`,
+  `FCM: ${isDropFrame(fps) ? 'DROP FRAME' : 'NON-DROP FRAME'}`,
+  '',
+];
+
+const edlEvent = (m: ExportMarker, reel: string, fps: number) => {
+  const tcIn = frameToTimecode(m.inFrame, fps);
+  const tcOut = frameToTimecode(m.outFrame, fps);
+  return `${m.index.toString().padStart(3, '0')}  ${reel.padEnd(8)} V     C        ${tcIn} ${tcOut} ${tcIn} ${tcOut}`;
+};
+
+const exportEdl = (title: string, markers: ExportMarker[], fps: number) => [
+  ...edlHeader(title, fps),
+  ...markers.slice(0, EDL_MAX_EVENTS).flatMap(m => [
+    edlEvent(m, 'AX', fps),
+    `* FROM CLIP NAME: ${singleLine(title)}`,
+    `* LOC: ${frameToTimecode(m.inFrame, fps)} ${m.comment.resolved ? 'GREEN ' : 'YELLOW'} ${singleLine(`${m.comment.authorName}: ${m.text}`)}`,
+    `* COMMENT: ${m.comment.resolved ? 'RESOLVED' : 'OPEN'}${m.isRange ? ` ${frameToTimecode(m.inFrame, fps)}-${frameToTimecode(m.outFrame, fps)}` : ''}`,
+    '',
+  ]),
+].join('\r\n');
+
+// Resolve reads markers back from "Timelines > Import > Timeline Markers from
+// EDL" using the `|C:` colour, `|M:` name and `|D:` duration-in-frames tags.
+const exportResolveEdl = (title: string, markers: ExportMarker[], fps: number) => [
+  ...edlHeader(title, fps),
+  ...markers.slice(0, EDL_MAX_EVENTS).flatMap(m => [
+    edlEvent(m, '001', fps),
+    `${singleLine(m.text).replace(/\|/g, '/')} |C:${m.comment.resolved ? 'ResolveColorGreen' : 'ResolveColorYellow'} |M:${singleLine(m.comment.authorName).replace(/\|/g, '/')} |D:${m.outFrame - m.inFrame}`,
+    '',
+  ]),
+].join('\r\n');
+
+const exportResolveCsv = (markers: ExportMarker[], fps: number) => toCsv([
+  ['#', 'Name', 'Record In', 'Record Out', 'Duration', 'Color', 'Notes', 'Resolved'],
+  ...markers.map(m => [
+    m.index,
+    m.comment.authorName,
+    frameToTimecode(m.inFrame, fps),
+    frameToTimecode(m.outFrame, fps),
+    m.outFrame - m.inFrame,
+    m.comment.resolved ? 'Green' : 'Yellow',
+    m.text,
+    m.comment.resolved,
+  ]),
+]);
+
+// xmeml v4 sequence with sequence markers, which both Final Cut Pro 7 and
+// Premiere import. Point markers use an out of -1.
+const exportXml = (title: string, version: ProjectVersion, markers: ExportMarker[], fps: number, startFrame: number) => {
+  const rate = `<rate><timebase>${Math.round(fps)}</timebase><ntsc>${Number.isInteger(fps) ? 'FALSE' : 'TRUE'}</ntsc></rate>`;
+  const duration = Math.max(1, timeToFrame(version.duration, fps));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE xmeml>',
+    '<xmeml version="4">',
+    '  <sequence>',
+    `    <name>${escapeXml(`${title} v${version.number}`)}</name>`,
+    `    <duration>${duration}</duration>`,
+    `    ${rate}`,
+    `    <timecode>${rate}<string>${frameToTimecode(startFrame, fps)}</string><frame>${startFrame}</frame><displayformat>${isDropFrame(fps) ? 'DF' : 'NDF'}</displayformat></timecode>`,
+    ...markers.map(m => [
+      '    <marker>',
+      `      <name>${escapeXml(`${m.comment.authorName}${m.comment.resolved ? ' (resolved)' : ''}`)}</name>`,
+      `      <comment>${escapeXml(m.text)}</comment>`,
+      `      <in>${m.inFrame - startFrame}</in>`,
+      `      <out>${m.isRange ? m.outFrame - startFrame : -1}</out>`,
+      '    </marker>',
+    ].join('\n')),
+    `    <media><video><format><samplecharacteristics>${rate}<width>${version.width || 1920}</width><height>${version.height || 1080}</height></samplecharacteristics></format><track /></video></media>`,
+    '  </sequence>',
+    '</xmeml>',
+    '',
+  ].join('\n');
+};
+
+const exportCsv = (markers: ExportMarker[], fps: number) => toCsv([
+  ['#', 'Timecode In', 'Timecode Out', 'Start (s)', 'End (s)', 'Author', 'Comment', 'Resolved', 'Created'],
+  ...markers.map(m => [
+    m.index,
+    frameToTimecode(m.inFrame, fps),
+    m.isRange ? frameToTimecode(m.outFrame, fps) : '',
+    m.comment.timestamp.toFixed(3),
+    m.isRange ? m.comment.endTimestamp!.toFixed(3) : '',
+    m.comment.authorName,
+    m.text,
+    m.comment.resolved,
+    new Date(m.comment.createdAt).toISOString(),
+  ]),
+]);
+
+const exportJson = (project: Project, version: ProjectVersion, markers: ExportMarker[], fps: number) => JSON.stringify({
+  project: { id: project.id, title: project.title },
+  version: { id: version.id, number: version.number, duration: version.duration },
+  frameRate: fps,
+  dropFrame: isDropFrame(fps),
+  comments: markers.map(m => ({
+    id: m.comment.id,
+    timecodeIn: frameToTimecode(m.inFrame, fps),
+    timecodeOut: m.isRange ? frameToTimecode(m.outFrame, fps) : null,
+    start: m.comment.timestamp,
+    end: m.isRange ? m.comment.endTimestamp : null,
+    author: m.comment.authorName,
+    text: m.comment.deletedAt ? null : m.comment.text,
+    resolved: m.comment.resolved,
+    createdAt: new Date(m.comment.createdAt).toISOString(),
+    replies: m.replies.map(r => ({ author: r.authorName, text: r.text, createdAt: new Date(r.createdAt).toISOString() })),
+  })),
+}, null, 2);
+
+const exportBaseName = (project: Project, version: ProjectVersion) => `${project.title.replace(/[^\w.-]+/g, '_')}_v${version.number}`;
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const ExportService = {
+  build: (project: Project, version: ProjectVersion, comments: Comment[], options: ExportOptions) => {
+    const fps = getFrameRate(project);
+    const markers = buildExportMarkers(comments, fps, options);
+    const startFrame = options.startAtOneHour ? oneHourFrames(fps) : 0;
+    const format = EXPORT_FORMATS.find(f => f.id === options.format)!;
+    const title = project.title;
+    const content = {
+      'edl': () => exportEdl(title, markers, fps),
+      'resolve-edl': () => exportResolveEdl(title, markers, fps),
+      'resolve-csv': () => exportResolveCsv(markers, fps),
+      'xml': () => exportXml(title, version, markers, fps, startFrame),
+      'csv': () => exportCsv(markers, fps),
+      'json': () => exportJson(project, version, markers, fps),
+    }[options.format]();
+    const baseName = `${exportBaseName(project, version)}${options.unresolvedOnly ? '_open' : ''}`;
+    const count = format.extension === 'edl' ? Math.min(markers.length, EDL_MAX_EVENTS) : markers.length;
+    return {
+      content,
+      count,
+      skipped: markers.length - count, // Past the EDL event limit
+      fileName: `${baseName}.${format.extension}`,
+      mime: format.mime,
+    };
+  },
+
+  download: async (project: Project, version: ProjectVersion, options: ExportOptions) => {
+    const comments = await DatabaseService.getComments(project.id, version.id);
+    const file = ExportService.build(project, version, comments, options);
+    downloadBlob(new Blob([file.content], { type: file.mime }), file.fileName);
+    return { count: file.count, skipped: file.skipped };
+  },
+};
+
+// --- AI Service -------------------------------------------------------------
+//
+// AIService turns open review threads into an action checklist. The model
+// returns JSON that is checked against the real comments before use: unknown
+// comment IDs are dropped and times always come from the comments themselves.
+//
+// Providers (AI_PROVIDER): 'gemini' (default), 'openai' for any
+// OpenAI-compatible server such as a local LLM, or 'fake' for a deterministic
+// offline stand-in. Real providers are called through AI_PROXY_URL, which adds
+// the API key server-side, so no key is ever built into the bundle.
+
+type FeedbackCategory = 'colour' | 'audio' | 'pacing' | 'text-graphics' | 'other';
+type FeedbackPriority = 'high' | 'medium' | 'low';
+
+const FEEDBACK_CATEGORIES: { id: FeedbackCategory; label: string }[] = [
+  { id: 'colour', label: 'Colour' },
+  { id: 'audio', label: 'Audio' },
+  { id: 'pacing', label: 'Pacing & Edit' },
+  { id: 'text-graphics', label: 'Text & Graphics' },
+  { id: 'other', label: 'Other' },
+];
+
+const FEEDBACK_PRIORITIES: FeedbackPriority[] = ['high', 'medium', 'low'];
+
+interface ActionItem {
+  id: string;
+  summary: string;
+  category: FeedbackCategory;
+  priority: FeedbackPriority;
+  commentIds: string[]; // Root comments this item covers; duplicates are merged into one item
+  timestamp: number; // Earliest in point of the linked comments
+  conflict?: string; // Set when reviewers ask for opposite things
+}
+
+interface FeedbackAnalysis {
+  items: ActionItem[];
+  provider: string;
+  generatedAt: number;
+  cached: boolean; // Served from the local cache without calling the model
+  requestsToday: number; // Model calls from this browser today, for display
+  truncated: number; // Threads left out to stay under AI_MAX_INPUT_CHARS
+}
+
+// What the model sees for each open thread.
+interface FeedbackThreadInput {
+  id: string;
+  time: string;
+  author: string;
+  text: string;
+  replies: { author: string; text: string }[];
+  annotation?: string; // What the reviewer drew, and where (see describeStrokes)
+  frame?: string; // Label of the attached annotated still, if one was captured
+}
+
+// Raw model output, before validation.
+interface RawActionItem {
+  summary?: unknown;
+  category?: unknown;
+  priority?: unknown;
+  commentIds?: unknown;
+  conflict?: unknown;
+}
+
+interface AIImage {
+  label: string; // Sent as text just before the image so the prompt can refer to it
+  mimeType: string;
+  data: string; // Base64, without the data: URL prefix
+}
+
+interface AIRequest {
+  task: 'feedback-checklist'; // Lets the fake provider answer without a model
+  instructions: string;
+  data: unknown; // Sent as JSON after the instructions
+  images?: AIImage[];
+  schema: object; // JSON Schema the reply must match
+}
+
+interface AIGenerateOptions {
+  onToken?: (text: string) => void; // Each streamed fragment, in order
+  signal?: AbortSignal;
+}
+
+interface AIProvider {
+  name: string; // provider:model, part of the cache key
+  // Resolves with the complete reply text.
+  generate: (request: AIRequest, options: AIGenerateOptions) => Promise<string>;
+}
+
+const AI_PROVIDER = process.env.AI_PROVIDER || 'gemini';
+const AI_MODEL = process.env.AI_MODEL || '';
+const AI_PROXY_URL = process.env.AI_PROXY_URL || '/api/ai';
+const AI_MAX_OUTPUT_TOKENS = Number(process.env.AI_MAX_OUTPUT_TOKENS) || 4096;
+const AI_DAILY_REQUEST_LIMIT = Number(process.env.AI_DAILY_REQUEST_LIMIT) || 50;
+// Longer feedback is trimmed (newest threads dropped) to cap input tokens.
+const AI_MAX_INPUT_CHARS = 60000;
+// Annotated stills sent per request, earliest drawings first.
+const AI_MAX_FRAMES = 6;
+const AI_FRAME_WIDTH = 768;
+
+const formatAIPrompt = (request: AIRequest) => `${request.instructions}\n\n${JSON.stringify(request.data)}`;
+
+const proxyUrl = (provider: string) => new URL(`${AI_PROXY_URL.replace(/\/$/, '')}/${provider}`, window.location.href).href;
+
+const FEEDBACK_ANALYSIS_SCHEMA = {
+  type: 'object',
+  properties: {
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          summary: { type: 'string', description: 'One imperative sentence the editor can act on' },
+          category: { type: 'string', enum: FEEDBACK_CATEGORIES.map(c => c.id) },
+          priority: { type: 'string', enum: FEEDBACK_PRIORITIES },
+          commentIds: { type: 'array', items: { type: 'string' } },
+          conflict: { type: 'string', description: 'How reviewers disagree, if they do' },
+        },
+        required: ['summary', 'category', 'priority', 'commentIds'],
+      },
+    },
+  },
+  required: ['items'],
+};
+
+// The proxy swaps the placeholder key for the real one.
+const createGeminiProvider = (): AIProvider => {
+  const model = AI_MODEL || 'gemini-2.5-flash';
+  return {
+    name: `gemini:${model}`,
+    generate: async (request, { onToken, signal }) => {
+      const ai = new GoogleGenAI({ apiKey: 'proxy', httpOptions: { baseUrl: proxyUrl('gemini') } });
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: [{
+          role: 'user',
+          parts: [
+            { text: formatAIPrompt(request) },
+            ...(request.images || []).flatMap(img => [{ text: img.label }, { inlineData: { mimeType: img.mimeType, data: img.data } }]),
+          ],
+        }],
+        config: {
+          responseMimeType: 'application/json',
+          responseJsonSchema: request.schema,
+          maxOutputTokens: AI_MAX_OUTPUT_TOKENS,
+          abortSignal: signal,
+        },
+      });
+      let text = '';
+      for await (const chunk of stream) {
+        const token = chunk.text || '';
+        text += token;
+        if (token) onToken?.(token);
+      }
+      return text;
+    },
+  };
+};
+
+// Chat Completions with server-sent events, as served by llama.cpp, Ollama,
+// LM Studio, vLLM and OpenAI itself.
+const createOpenAICompatibleProvider = (): AIProvider => {
+  const model = AI_MODEL || 'local-model';
+  return {
+    name: `openai:${model}`,
+    generate: async (request, { onToken, signal }) => {
+      const res = await fetch(`${proxyUrl('openai')}/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        signal,
+        body: JSON.stringify({
+          model,
+          stream: true,
+          max_tokens: AI_MAX_OUTPUT_TOKENS,
+          messages: [
+            { role: 'system', content: request.instructions },
+            {
+              role: 'user',
+              content: request.images?.length ? [
+                { type: 'text', text: JSON.stringify(request.data) },
+                ...request.images.flatMap(img => [
+                  { type: 'text', text: img.label },
+                  { type: 'image_url', image_url: { url: `data:${img.mimeType};base64,${img.data}` } },
+                ]),
+              ] : JSON.stringify(request.data),
+            },
+          ],
+          response_format: { type: 'json_schema', json_schema: { name: request.task, schema: request.schema } },
+        }),
+      });
+      if (!res.ok || !res.body) throw new Error(`AI endpoint returned ${res.status}: ${await res.text()}`);
+
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+      let text = '';
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop()!;
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+          const token = JSON.parse(data).choices?.[0]?.delta?.content || '';
+          text += token;
+          if (token) onToken?.(token);
+        }
+      }
+      return text;
+    },
+  };
+};
+
+// -- Fake provider: keyword rules, same input always gives the same output --
+
+const FAKE_CATEGORY_KEYWORDS: [FeedbackCategory, RegExp][] = [
+  ['colour', /\b(colou?r\w*|grad(e|ing)|green\w*|saturat\w*|exposure|bright\w*|dark\w*|contrast|skin|warm\w*|cool\w*|white balance)\b/i],
+  ['audio', /\b(audio|sound|music|mix|volume|loud\w*|quiet\w*|dialog(ue)?|voice|sfx|hit|beat)\b/i],
+  ['text-graphics', /\b(title|text|font|caption|subtitle|logo|graphic\w*|lower third|typo|spelling)\b/i],
+  ['pacing', /\b(cut|trim|pac(e|ing)|slow\w*|fast\w*|long\w*|short\w*|tighten|linger\w*|transition|timing)\b/i],
+];
+
+const FAKE_HIGH_PRIORITY = /\b(must|asap|urgent|wrong|broken|typo|legal)\b|!/i;
+const FAKE_LOW_PRIORITY = /\b(maybe|consider|nit|optional|could|perhaps)\b/i;
+
+// Opposite requests that flag a conflict when two reviewers ask for each.
+const FAKE_OPPOSITES: [RegExp, RegExp][] = [
+  [/\b(more|increase|louder|brighter|longer|faster)\b/i, /\b(less|decrease|quieter|darker|shorter|slower)\b/i],
+  [/\b(keep|leave)\b/i, /\b(remove|cut|drop)\b/i],
+];
+
+// Notes in the same category within this many seconds count as one item.
+const FAKE_MERGE_WINDOW = 2;
+
+const parseThreadTime = (time: string) => time.split('–')[0].split(':').reduce((acc, part) => acc * 60 + Number(part), 0);
+
+const fakeFeedbackChecklist = (threads: FeedbackThreadInput[]) => {
+  const categorise = (text: string) => FAKE_CATEGORY_KEYWORDS.find(([, re]) => re.test(text))?.[0] || 'other';
+  const groups: { category: FeedbackCategory; time: number; threads: FeedbackThreadInput[] }[] = [];
+  [...threads]
+    .sort((a, b) => parseThreadTime(a.time) - parseThreadTime(b.time) || a.id.localeCompare(b.id))
+    .forEach(thread => {
+      const category = categorise(thread.text);
+      const time = parseThreadTime(thread.time);
+      const group = groups.find(g => g.category === category && Math.abs(g.time - time) <= FAKE_MERGE_WINDOW);
+      if (group) group.threads.push(thread);
+      else groups.push({ category, time, threads: [thread] });
+    });
+
+  return {
+    items: groups.map(({ category, threads: group }) => {
+      const notes = group.flatMap(t => [{ author: t.author, text: t.text }, ...t.replies]);
+      const text = notes.map(n => n.text).join(' ');
+      const priority = FAKE_HIGH_PRIORITY.test(text) ? 'high' : FAKE_LOW_PRIORITY.test(text) ? 'low' : 'medium';
+      const authorsMatching = (re: RegExp) => new Set(notes.filter(n => re.test(n.text)).map(n => n.author));
+      const clash = FAKE_OPPOSITES.find(([a, b]) => {
+        const forA = authorsMatching(a);
+        const forB = authorsMatching(b);
+        return forA.size > 0 && forB.size > 0 && [...forA, ...forB].some(author => !(forA.has(author) && forB.has(author)));
+      });
+      return {
+        summary: `${group[0].text}${group[0].annotation ? ` (${group[0].annotation} at ${group[0].time})` : ''}${group.length > 1 ? ` (+${group.length - 1} similar)` : ''}`,
+        category,
+        priority,
+        commentIds: group.map(t => t.id),
+        conflict: clash ? `Reviewers disagree: ${notes.filter(n => clash[0].test(n.text) || clash[1].test(n.text)).map(n => `${n.author}: "${n.text}"`).join(' vs ')}` : undefined,
+      };
+    }),
+  };
+};
+
+// Streams its answer in small pieces so the UI path matches a real model.
+const createFakeProvider = (): AIProvider => ({
+  name: 'fake',
+  generate: async (request, { onToken, signal }) => {
+    const text = JSON.stringify(fakeFeedbackChecklist(request.data as FeedbackThreadInput[]));
+    for (let i = 0; i < text.length; i += 24) {
+      signal?.throwIfAborted();
+      onToken?.(text.slice(i, i + 24));
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    return text;
+  },
+});
+
+const createAIProvider = (): AIProvider => {
+  if (AI_PROVIDER === 'fake') return createFakeProvider();
+  if (AI_PROVIDER === 'openai') return createOpenAICompatibleProvider();
+  return createGeminiProvider();
+};
+
+let aiProvider: AIProvider | null = null;
+
+const getAIProvider = () => aiProvider || (aiProvider = createAIProvider());
+
+// -- Result cache and daily budget --
+//
+// Replies are cached by a hash of provider, prompt and input, so asking again
+// about unchanged comments costs nothing. Both live in localStorage.
+
+const AI_CACHE_STORAGE_KEY = 'cf_ai_cache';
+const AI_CACHE_LIMIT = 20;
+const AI_USAGE_STORAGE_KEY = 'cf_ai_usage';
+
+const readAICache = (): { key: string; text: string }[] => {
+  try {
+    return JSON.parse(localStorage.getItem(AI_CACHE_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writeAICache = (key: string, text: string) => {
+  const entries = [{ key, text }, ...readAICache().filter(e => e.key !== key)].slice(0, AI_CACHE_LIMIT);
+  localStorage.setItem(AI_CACHE_STORAGE_KEY, JSON.stringify(entries));
+};
+
+// The proxy enforces the daily limit; this count only tells the user how
+// much of it they have used from this browser.
+const readAIRequestsToday = (): number => {
+  try {
+    const usage = JSON.parse(localStorage.getItem(AI_USAGE_STORAGE_KEY) || '{}');
+    return usage.date === new Date().toISOString().slice(0, 10) ? usage.count : 0;
+  } catch {
+    return 0;
+  }
+};
+
+const countAIRequest = () => {
+  const count = readAIRequestsToday() + 1;
+  localStorage.setItem(AI_USAGE_STORAGE_KEY, JSON.stringify({ date: new Date().toISOString().slice(0, 10), count }));
+};
+
+// Runs a request through the cache. `fresh` skips the lookup but still
+// stores the new reply.
+// Images are costly to make, so they are only loaded on a cache miss; their
+// key names what they show instead.
+const generateCached = async (request: AIRequest, options: AIGenerateOptions & { fresh?: boolean }, images?: { key: string, load: () => Promise<AIImage[]> }) => {
+  const provider = getAIProvider();
+  const key = await sha256Hex(`${provider.name}\n${formatAIPrompt(request)}\n${images?.key ?? ''}`);
+  const cached = !options.fresh && readAICache().find(e => e.key === key);
+  if (cached) return { text: cached.text, provider: provider.name, cached: true };
+
+  if (images) request = { ...request, images: await images.load() };
+  // The fake provider is free, so it does not count against the budget.
+  if (provider.name !== 'fake') countAIRequest();
+  const text = await provider.generate(request, options);
+  writeAICache(key, text);
+  return { text, provider: provider.name, cached: false };
+};
+
+const isOneOf = <T extends string>(value: unknown, options: readonly T[]): value is T => options.includes(value as T);
+
+// Keeps only what can be trusted from the model: known categories and
+// priorities, and comment IDs that exist. Each comment belongs to the first
+// item that claims it, so duplicates collapse and empty items are dropped.
+const normaliseActionItems = (raw: RawActionItem[], roots: Comment[]): ActionItem[] => {
+  const byId = new Map(roots.map(c => [c.id, c]));
+  const claimed = new Set<string>();
+  const items: ActionItem[] = [];
+  raw.forEach(item => {
+    const ids = (Array.isArray(item.commentIds) ? item.commentIds : [])
+      .filter((id): id is string => typeof id === 'string' && byId.has(id) && !claimed.has(id));
+    if (typeof item.summary !== 'string') return;
+    const unique = [...new Set(ids)];
+    if (!unique.length) return;
+    unique.forEach(id => claimed.add(id));
+    items.push({
+      id: `a${items.length + 1}`,
+      summary: item.summary.trim(),
+      category: isOneOf(item.category, FEEDBACK_CATEGORIES.map(c => c.id)) ? item.category : 'other',
+      priority: isOneOf(item.priority, FEEDBACK_PRIORITIES) ? item.priority : 'medium',
+      commentIds: unique,
+      timestamp: Math.min(...unique.map(id => byId.get(id)!.timestamp)),
+      conflict: typeof item.conflict === 'string' && item.conflict.trim() ? item.conflict.trim() : undefined,
+    });
+  });
+  return items.sort((a, b) =>
+    FEEDBACK_PRIORITIES.indexOf(a.priority) - FEEDBACK_PRIORITIES.indexOf(b.priority) || a.timestamp - b.timestamp);
+};
+
+const FEEDBACK_CHECKLIST_INSTRUCTIONS = `
+You are an assistant for a video editor. Turn the reviewer feedback that follows into a checklist of action items.
+- Merge notes that ask for the same change into one item listing every source comment id.
+- Categorise each item and set its priority (high for errors or blocking notes, low for optional suggestions).
+- If reviewers contradict each other on an item, describe the disagreement in "conflict".
+- Only use comment ids that appear in the feedback.
+- Some comments come with a drawing. "annotation" says what was drawn and where, and "frame" names the attached still of that moment with the drawing on it. Use them to say concretely what words like "this" or "here" refer to, and where in the frame (e.g. "Brighten the grass in the lower-left at 0:05").
+Reply with JSON only.`.trim();
+
+// Pulls finished "summary" strings out of a partial JSON reply, so the panel
+// can list items while the model is still writing.
+const streamedSummaries = (partial: string) =>
+  [...partial.matchAll(/"summary"\s*:\s*"((?:[^"\\]|\\.)*)"/g)].map(m => {
+    try {
+      return JSON.parse(`"${m[1]}"`) as string;
+    } catch {
+      return m[1];
+    }
+  });
+
+// Captures annotated stills for the earliest threads with drawings and links
+// them from the thread input. Text-only analysis still works when the frames
+// cannot be read (e.g. a linked video without CORS), so failures only warn.
+const captureFeedbackFrames = async (threads: FeedbackThreadInput[], drawn: Comment[], videoUrl: string, signal?: AbortSignal) => {
+  const images: AIImage[] = [];
+  let grabber: Awaited<ReturnType<typeof FrameCaptureService.open>> | null = null;
+  try {
+    grabber = await FrameCaptureService.open(videoUrl);
+    for (const comment of drawn) {
+      signal?.throwIfAborted();
+      const frame = await grabber.capture(comment.timestamp, comment.drawingData, { width: AI_FRAME_WIDTH, quality: 0.7 });
+      const thread = threads.find(t => t.id === comment.id)!;
+      thread.frame = `frame-${comment.id}`;
+      images.push({ label: `${thread.frame} (comment ${comment.id} at ${thread.time}):`, mimeType: 'image/jpeg', data: frame.dataUrl.split(',')[1] });
+    }
+  } catch (e) {
+    if (signal?.aborted) throw new Error('Analysis cancelled.');
+    console.warn('Sending feedback without frames:', e);
+  } finally {
+    grabber?.close();
+  }
+  return images;
+};
+
+const AIService = {
+  // Throws with a readable message when the provider fails. Pass `fresh` to
+  // skip the cache and onToken to follow the reply as it streams in. With a
+  // video, comments with drawings are sent with an annotated still.
+  analyzeFeedback: async (comments: Comment[], videoTitle: string, options: AIGenerateOptions & { fresh?: boolean, video?: Pick<ProjectVersion, 'videoUrl' | 'width' | 'height'> } = {}): Promise<FeedbackAnalysis> => {
+    const { video } = options;
+    const unresolved = buildThreads(comments).filter(t => !t.root.resolved && !t.root.deletedAt);
+    if (unresolved.length === 0) {
+      return { items: [], provider: getAIProvider().name, generatedAt: Date.now(), cached: false, requestsToday: readAIRequestsToday(), truncated: 0 };
+    }
+
+    const threads: FeedbackThreadInput[] = [];
+    let size = 0;
+    for (const { root: c, replies } of unresolved) {
+      const thread: FeedbackThreadInput = {
+        id: c.id,
+        time: formatCommentTime(c),
+        author: c.authorName,
+        text: c.text,
+        replies: replies.filter(r => !r.deletedAt).map(r => ({ author: r.authorName, text: r.text })),
+      };
+      if (c.drawingData?.length) thread.annotation = describeStrokes(toVideoSpace(c.drawingData, video?.width ?? 0, video?.height ?? 0));
+      size += JSON.stringify(thread).length;
+      if (size > AI_MAX_INPUT_CHARS && threads.length > 0) break;
+      threads.push(thread);
+    }
+
+    const drawn = video
+      ? unresolved.map(t => t.root).filter(c => c.drawingData?.length && threads.some(t => t.id === c.id)).slice(0, AI_MAX_FRAMES)
+      : [];
+    const images = drawn.length ? {
+      key: JSON.stringify(drawn.map(c => [c.id, c.timestamp, c.drawingData])),
+      load: () => captureFeedbackFrames(threads, drawn, video!.videoUrl, options.signal),
+    } : undefined;
+
+    let result: Awaited<ReturnType<typeof generateCached>>;
+    let raw: { items?: RawActionItem[] };
+    try {
+      result = await generateCached({
+        task: 'feedback-checklist',
+        instructions: `${FEEDBACK_CHECKLIST_INSTRUCTIONS}\nVideo title: "${videoTitle}"`,
+        data: threads,
+        schema: FEEDBACK_ANALYSIS_SCHEMA,
+      }, options, images);
+      raw = JSON.parse(result.text || '{}');
+    } catch (e) {
+      if (options.signal?.aborted) throw new Error('Analysis cancelled.');
+      console.error(e);
+      throw new Error(`Could not analyse feedback: ${(e as Error).message}`);
+    }
+    return {
+      items: normaliseActionItems(Array.isArray(raw.items) ? raw.items : [], unresolved.map(t => t.root)),
+      provider: result.provider,
+      generatedAt: Date.now(),
+      cached: result.cached,
+      requestsToday: readAIRequestsToday(),
+      truncated: unresolved.length - threads.length,
+    };
+  }
+};
+
+// --- React Contexts ---------------------------------------------------------
+
+interface AuthContextValue {
+  user: User | null;
+  guest: User | null; // Name a share-link visitor gave, when not signed in
+  login: () => Promise<void>;
+  loginWithEmail: (email: string, password: string) => Promise<void>;
+  logout: () => void;
+  updateProfile: (changes: Partial<Pick<User, 'displayName' | 'avatarColor'>>) => Promise<void>;
+  upgradeAccount: (email: string, password: string) => Promise<void>;
+  saveGuest: (details: Pick<User, 'displayName'> & Partial<Pick<User, 'email' | 'avatarColor'>>) => void;
+}
+
+const AuthContext = createContext<AuthContextValue>({
+  user: null, guest: null,
+  login: async () => {}, loginWithEmail: async () => {}, logout: () => {},
+  updateProfile: async () => {}, upgradeAccount: async () => {}, saveGuest: () => {},
+});
+
+const AuthProvider = ({ children }: { children: React.ReactNode }) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [guest, setGuest] = useState<User | null>(() => AuthService.getGuest());
+
+  const login = async () => {
+    const u = await AuthService.signInAnonymously();
+    setUser(u);
+  };
+
+  const loginWithEmail = async (email: string, password: string) => {
+    setUser(await AuthService.signInWithEmail(email, password));
+  };
+
+  const logout = async () => {
+    await AuthService.signOut(user);
+    setUser(null);
+  };
+
+  const updateProfile = async (changes: Partial<Pick<User, 'displayName' | 'avatarColor'>>) => {
+    if (user) setUser(await AuthService.updateProfile(user, changes));
+  };
+
+  const upgradeAccount = async (email: string, password: string) => {
+    if (user) setUser(await AuthService.upgradeToEmail(user, email, password));
+  };
+
+  const saveGuest = (details: Pick<User, 'displayName'> & Partial<Pick<User, 'email' | 'avatarColor'>>) => {
+    setGuest(AuthService.saveGuest(details));
+  };
+
+  return (
+    <AuthContext.Provider value={{ user, guest, login, loginWithEmail, logout, updateProfile, upgradeAccount, saveGuest }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+// --- Components -------------------------------------------------------------
+
+const Button = ({ children, onClick, variant = 'primary', icon: Icon, disabled, className = '' }: any) => {
+  const variants: any = {
+    primary: "bg-blue-600 text-white hover:bg-blue-700 shadow-sm",
+    secondary: "bg-white text-gray-700 border border-gray-200 hover:bg-gray-50",
+    danger: "bg-red-50 text-red-600 hover:bg-red-100",
+    ghost: "text-gray-600 hover:bg-gray-100"
+  };
+  
+  return (
+    <button 
+      onClick={onClick}
+      disabled={disabled}
+      className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm transition-all disabled:opacity-50 disabled:cursor-not-allowed ${variants[variant]} ${className}`}
+    >
+      {Icon && <Icon size={16} />}
+      {children}
+    </button>
+  );
+};
+
+const initials = (name: string) =>
+  name.trim().split(/\s+/).slice(0, 2).map(word => Array.from(word)[0] || '').join('').toUpperCase() || '?';
+
+const Avatar = ({ name, color, size = 24 }: { name: string, color: string, size?: number }) => (
+  <span 
+    title={name}
+    className="inline-flex items-center justify-center rounded-full text-white font-semibold shrink-0 select-none"
+    style={{ backgroundColor: color, width: size, height: size, fontSize: Math.round(size * 0.4) }}
+  >
+    {initials(name)}
+  </span>
+);
+
+const commentAvatarColor = (c: Comment) => c.authorColor || defaultAvatarColor(c.authorId);
+
+// Keeps past and future values so edits can be undone and redone.
+const useUndoable = <T,>(initial: T) => {
+  const [history, setHistory] = useState({ past: [] as T[], present: initial, future: [] as T[] });
+
+  // Updates that return the current value unchanged leave no undo step.
+  const set = useCallback((next: T | ((prev: T) => T)) => {
+    setHistory(h => {
+      const present = typeof next === 'function' ? (next as (prev: T) => T)(h.present) : next;
+      return present === h.present ? h : { past: [...h.past, h.present], present, future: [] };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => h.past.length === 0 ? h : {
+      past: h.past.slice(0, -1),
+      present: h.past[h.past.length - 1],
+      future: [h.present, ...h.future],
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => h.future.length === 0 ? h : {
+      past: [...h.past, h.present],
+      present: h.future[0],
+      future: h.future.slice(1),
+    });
+  }, []);
+
+  const reset = useCallback((value: T) => setHistory({ past: [], present: value, future: [] }), []);
+
+  return {
+    value: history.present, set, undo, redo, reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
+
+// True when a key event comes from a text field, where shortcuts must not fire.
+const isTypingTarget = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  return !!el && (el.tagName === 'TEXTAREA' || el.tagName === 'INPUT' || el.tagName === 'SELECT' || el.isContentEditable);
+};
+
+// Returns a callback ref and the element's live CSS pixel size.
+const useElementSize = <T extends HTMLElement>() => {
+  const [element, setElement] = useState<T | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setSize(s => s.width === width && s.height === height ? s : { width, height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [element]);
+
+  return [setElement, size] as const;
+};
+
+// Resolves a stored video or image URL (see StorageService.resolveUrl) and
+// revokes any object URL it created when the URL changes or on unmount.
+const useStoredUrl = (url: string | undefined) => {
+  const [resolved, setResolved] = useState<string | undefined>();
+
+  useEffect(() => {
+    setResolved(undefined);
+    if (!url) return;
+    let active = true;
+    let objectUrl: string | null = null;
+    StorageService.resolveUrl(url).then(playable => {
+      if (playable !== url) objectUrl = playable;
+      if (active) setResolved(playable);
+      else if (objectUrl) URL.revokeObjectURL(objectUrl);
+    }, err => console.error(`Could not load ${url}`, err));
+    return () => {
+      active = false;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [url]);
+
+  return resolved;
+};
+
+const formatTime = (seconds: number) => {
+  if (!isFinite(seconds)) return "0:00";
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+const isRangeComment = (c: Comment) => c.endTimestamp !== undefined && c.endTimestamp > c.timestamp;
+
+// "1:05" for point comments, "1:05–1:12" for ranges. Pass a formatter to use
+// timecode instead.
+const formatCommentTime = (c: Comment, format: (seconds: number) => string = formatTime) => {
+  return isRangeComment(c) ? `${format(c.timestamp)}–${format(c.endTimestamp!)}` : format(c.timestamp);
+};
+
+// --- Timecode ---
+
+const DEFAULT_FRAME_RATE = 24;
+
+const FRAME_RATES = [23.976, 24, 25, 29.97, 30, 50, 59.94, 60];
+
+const getFrameRate = (project: Project) => project.frameRate || DEFAULT_FRAME_RATE;
+
+// NTSC rates (23.976, 29.97, 59.94) are really n * 1000/1001 frames per second.
+const exactFrameRate = (fps: number) => Number.isInteger(fps) ? fps : Math.round(fps) * 1000 / 1001;
+
+// 29.97 and 59.94 use drop-frame timecode so it keeps pace with the wall clock.
+const isDropFrame = (fps: number) => !Number.isInteger(fps) && Math.round(fps) % 30 === 0;
+
+// The small epsilon keeps exact frame starts (frame / fps) from flooring to the
+// previous frame through floating point error.
+const timeToFrame = (seconds: number, fps: number) => Math.floor(Math.max(0, seconds) * exactFrameRate(fps) + 1e-6);
+
+const frameToTime = (frame: number, fps: number) => frame / exactFrameRate(fps);
+
+const snapToFrame = (seconds: number, fps: number) => frameToTime(timeToFrame(seconds, fps), fps);
+
+// SMPTE HH:MM:SS:FF (HH:MM:SS;FF for drop-frame).
+const formatTimecode = (seconds: number, fps: number) => {
+  const nominal = Math.round(fps);
+  let frame = timeToFrame(isFinite(seconds) ? seconds : 0, fps);
+
+  if (isDropFrame(fps)) {
+    // Frame numbers 0 and 1 (0-3 at 59.94) are skipped every minute except every tenth.
+    const dropped = nominal / 15;
+    const framesPer10Min = Math.round(exactFrameRate(fps) * 600);
+    const framesPerMin = nominal * 60 - dropped;
+    const tens = Math.floor(frame / framesPer10Min);
+    const rest = frame % framesPer10Min;
+    frame += 9 * dropped * tens + (rest > dropped ? dropped * Math.floor((rest - dropped) / framesPerMin) : 0);
+  }
+
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const ff = frame % nominal;
+  const totalSeconds = Math.floor(frame / nominal);
+  const hh = Math.floor(totalSeconds / 3600);
+  const mm = Math.floor(totalSeconds / 60) % 60;
+  const ss = totalSeconds % 60;
+  return `${pad(hh)}:${pad(mm)}:${pad(ss)}${isDropFrame(fps) ? ';' : ':'}${pad(ff)}`;
+};
+
+// --- Video Geometry ---
+
+interface Rect { x: number; y: number; width: number; height: number }
+
+// Where the picture actually lands inside a boxW x boxH element, following the
+// CSS object-fit rules. Annotations are normalised to this rect rather than the
+// element, so they stay on the same part of the frame at any size or aspect.
+const getVideoContentRect = (boxW: number, boxH: number, videoW: number, videoH: number, fit = 'contain'): Rect => {
+  if (!videoW || !videoH || fit === 'fill') return { x: 0, y: 0, width: boxW, height: boxH };
+  let scale = fit === 'cover' ? Math.max(boxW / videoW, boxH / videoH)
+    : fit === 'none' ? 1
+    : Math.min(boxW / videoW, boxH / videoH);
+  if (fit === 'scale-down') scale = Math.min(scale, 1);
+  const width = videoW * scale;
+  const height = videoH * scale;
+  return { x: (boxW - width) / 2, y: (boxH - height) / 2, width, height };
+};
+
+// Re-maps strokes tagged by the v2 migration from container space into video
+// space. Strokes pass through unchanged until the video size is known.
+const toVideoSpace = (strokes: Stroke[], videoW: number, videoH: number): Stroke[] => strokes.map(stroke => {
+  if (!stroke.legacyContainer || !videoW || !videoH) return stroke;
+  const { legacyContainer: box, ...rest } = stroke;
+  // The v1 player sized the video with max-width/max-height, i.e. scale-down.
+  const rect = getVideoContentRect(box.width, box.height, videoW, videoH, 'scale-down');
+  return {
+    ...rest,
+    points: stroke.points.map(p => ({
+      ...p,
+      x: (p.x * box.width - rect.x) / rect.width,
+      y: (p.y * box.height - rect.y) / rect.height,
+    })),
+  };
+});
+
+// --- Whiteboard Canvas Component ---
+
+type DrawTool = StrokeTool | 'eraser';
+
+interface Brush {
+  tool: DrawTool;
+  color: string;
+  width: number;
+}
+
+const DEFAULT_BRUSH: Brush = { tool: 'pen', color: '#ef4444', width: 4 };
+
+const BRUSH_COLORS = ['#ef4444', '#f59e0b', '#22c55e', '#3b82f6', '#a855f7', '#ffffff'];
+
+const textFontSize = (stroke: Stroke) => 12 + stroke.width * 2;
+
+// Mouse and touch report no useful pressure; treat them as a mid-pressure pen.
+const pressureScale = (pressure = 0.5) => 0.25 + pressure * 1.5;
+
+// Appends the Catmull-Rom segment pts[i] -> pts[i + 1] as a cubic Bézier, so
+// simplified paths still render as smooth curves.
+const traceCatmullRom = (ctx: CanvasRenderingContext2D, pts: Point[], i: number) => {
+  const p0 = pts[i - 1] || pts[i], p1 = pts[i], p2 = pts[i + 1], p3 = pts[i + 2] || p2;
+  ctx.bezierCurveTo(
+    p1.x + (p2.x - p0.x) / 6, p1.y + (p2.y - p0.y) / 6,
+    p2.x - (p3.x - p1.x) / 6, p2.y - (p3.y - p1.y) / 6,
+    p2.x, p2.y
+  );
+};
+
+// Ramer-Douglas-Peucker simplification, measured in pixels so the tolerance is
+// independent of the player's aspect ratio.
+const simplifyPoints = (points: Point[], tolerancePx: number, width: number, height: number): Point[] => {
+  if (points.length < 3) return points;
+  const px = (p: Point) => ({ x: p.x * width, y: p.y * height });
+  const first = px(points[0]), last = px(points[points.length - 1]);
+  let maxDist = 0, index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distanceToSegment(px(points[i]), first, last);
+    if (d > maxDist) { maxDist = d; index = i; }
+  }
+  if (maxDist <= tolerancePx) return [points[0], points[points.length - 1]];
+  const left = simplifyPoints(points.slice(0, index + 1), tolerancePx, width, height);
+  const right = simplifyPoints(points.slice(index), tolerancePx, width, height);
+  return [...left.slice(0, -1), ...right];
+};
+
+// Trims stored coordinates to what a 4K frame can resolve.
+const roundPoint = (p: Point): Point => ({
+  x: Math.round(p.x * 10000) / 10000,
+  y: Math.round(p.y * 10000) / 10000,
+  ...(p.pressure !== undefined && { pressure: Math.round(p.pressure * 100) / 100 }),
+});
+
+// Draws one stroke onto a 2D context sized width x height. Shared by the overlay
+// and anything else that needs to composite annotations (exports, frame grabs).
+const renderStroke = (ctx: CanvasRenderingContext2D, stroke: Stroke, width: number, height: number) => {
+  const pts = stroke.points.map(p => ({ x: p.x * width, y: p.y * height, pressure: p.pressure }));
+  const tool = stroke.tool || 'pen';
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.strokeStyle = stroke.color;
+  ctx.fillStyle = stroke.color;
+  ctx.lineWidth = stroke.width;
+
+  if (tool === 'text') {
+    if (pts.length > 0 && stroke.text) {
+      ctx.font = `bold ${textFontSize(stroke)}px sans-serif`;
+      ctx.textBaseline = 'top';
+      ctx.fillText(stroke.text, pts[0].x, pts[0].y);
+    }
+  } else if (tool === 'pen') {
+    if (pts.length >= 2 && pts.some(p => p.pressure !== undefined)) {
+      // Pressure varies along the path, so each segment gets its own width.
+      for (let i = 0; i < pts.length - 1; i++) {
+        ctx.beginPath();
+        ctx.moveTo(pts[i].x, pts[i].y);
+        traceCatmullRom(ctx, pts, i);
+        ctx.lineWidth = stroke.width * pressureScale(((pts[i].pressure ?? 0.5) + (pts[i + 1].pressure ?? 0.5)) / 2);
+        ctx.stroke();
+      }
+    } else if (pts.length >= 2) {
+      ctx.beginPath();
+      ctx.moveTo(pts[0].x, pts[0].y);
+      for (let i = 0; i < pts.length - 1; i++) traceCatmullRom(ctx, pts, i);
+      ctx.stroke();
+    }
+  } else if (pts.length >= 2) {
+    const [a, b] = [pts[0], pts[pts.length - 1]];
+    ctx.beginPath();
+    if (tool === 'rect') {
+      ctx.rect(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+    } else if (tool === 'ellipse') {
+      ctx.ellipse((a.x + b.x) / 2, (a.y + b.y) / 2, Math.abs(b.x - a.x) / 2, Math.abs(b.y - a.y) / 2, 0, 0, Math.PI * 2);
+    } else {
+      const angle = Math.atan2(b.y - a.y, b.x - a.x);
+      const head = Math.max(10, stroke.width * 3);
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+      ctx.moveTo(b.x - head * Math.cos(angle - Math.PI / 6), b.y - head * Math.sin(angle - Math.PI / 6));
+      ctx.lineTo(b.x, b.y);
+      ctx.lineTo(b.x - head * Math.cos(angle + Math.PI / 6), b.y - head * Math.sin(angle + Math.PI / 6));
+    }
+    ctx.stroke();
+  }
+  ctx.restore();
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const lenSq = dx * dx + dy * dy;
+  const t = lenSq ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq)) : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+// Pixel-space hit test used by the eraser. `p` is in canvas pixels.
+const hitTestStroke = (stroke: Stroke, p: Point, width: number, height: number) => {
+  const pts = stroke.points.map(q => ({ x: q.x * width, y: q.y * height }));
+  const tolerance = 8 + stroke.width / 2;
+  const tool = stroke.tool || 'pen';
+  if (pts.length === 0) return false;
+
+  if (tool === 'text') {
+    const size = textFontSize(stroke);
+    const textWidth = (stroke.text?.length || 0) * size * 0.6;
+    return p.x >= pts[0].x - tolerance && p.x <= pts[0].x + textWidth + tolerance
+      && p.y >= pts[0].y - tolerance && p.y <= pts[0].y + size + tolerance;
+  }
+
+  let outline = pts;
+  if (tool === 'rect' || tool === 'ellipse') {
+    const [a, b] = [pts[0], pts[pts.length - 1]];
+    if (tool === 'rect') {
+      outline = [a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }, a];
+    } else {
+      const cx = (a.x + b.x) / 2, cy = (a.y + b.y) / 2;
+      const rx = Math.abs(b.x - a.x) / 2, ry = Math.abs(b.y - a.y) / 2;
+      outline = Array.from({ length: 33 }, (_, i) => ({
+        x: cx + rx * Math.cos((i / 32) * Math.PI * 2),
+        y: cy + ry * Math.sin((i / 32) * Math.PI * 2),
+      }));
+    }
+  } else if (tool === 'arrow') {
+    outline = [pts[0], pts[pts.length - 1]];
+  }
+
+  if (outline.length === 1) return Math.hypot(p.x - outline[0].x, p.y - outline[0].y) <= tolerance;
+  for (let i = 1; i < outline.length; i++) {
+    if (distanceToSegment(p, outline[i - 1], outline[i]) <= tolerance) return true;
+  }
+  return false;
+};
+
+const WhiteboardOverlay = ({ 
+  width, height, isDrawing, drawingData, onDrawEnd, onErase, brush = DEFAULT_BRUSH, activeCommentDrawing, onDrawProgress, liveStrokes
+}: { 
+  width: number, height: number, isDrawing: boolean, 
+  drawingData: Stroke[], onDrawEnd: (s: Stroke) => void,
+  onErase?: (erase: (strokes: Stroke[]) => Stroke[]) => void, // Apply to the latest strokes
+  brush?: Brush,
+  activeCommentDrawing?: Stroke[],
+  onDrawProgress?: (s: Stroke | null) => void, // The unfinished stroke, for live sessions
+  liveStrokes?: Stroke[] // Other people's drawings in progress
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [currentPoints, setCurrentPoints] = useState<Point[]>([]);
+  const [isErasing, setIsErasing] = useState(false);
+  const [textAnchor, setTextAnchor] = useState<Point | null>(null);
+  const [textDraft, setTextDraft] = useState("");
+
+  const { tool, color } = brush;
+  const strokeWidth = brush.width;
+  const dpr = window.devicePixelRatio || 1;
+
+  const getNormPoint = (e: { clientX: number, clientY: number, pressure: number, pointerType: string }): Point => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) / rect.width,
+      y: (e.clientY - rect.top) / rect.height,
+      ...(e.pointerType === 'pen' && { pressure: e.pressure }),
+    };
+  };
+
+  const eraseAt = (p: Point) => {
+    const px = { x: p.x * width, y: p.y * height };
+    // Topmost stroke first, so overlapping marks come off in reverse draw order.
+    const topmostHit = (strokes: Stroke[]) => {
+      for (let i = strokes.length - 1; i >= 0; i--) {
+        if (hitTestStroke(strokes[i], px, width, height)) return i;
+      }
+      return -1;
+    };
+    if (topmostHit(drawingData) < 0) return;
+    // Hit-tested again on the strokes the update applies to: a drag can erase
+    // twice before drawingData catches up, and its indexes would be stale.
+    onErase?.(strokes => {
+      const index = topmostHit(strokes);
+      return index < 0 ? strokes : strokes.filter((_, i) => i !== index);
+    });
+  };
+
+  const cancelText = () => {
+    setTextAnchor(null);
+    setTextDraft("");
+  };
+
+  const commitText = () => {
+    if (textAnchor && textDraft.trim()) {
+      onDrawEnd({ tool: 'text', color, width: strokeWidth, points: [roundPoint(textAnchor)], text: textDraft.trim() });
+    }
+    cancelText();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!isDrawing || !e.isPrimary) return;
+    // Keep receiving moves when a finger or pen slides off the canvas.
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const p = getNormPoint(e);
+    if (tool === 'eraser') {
+      setIsErasing(true);
+      eraseAt(p);
+    } else if (tool === 'text') {
+      // The label box stays focused, so a second tap commits it.
+      e.preventDefault();
+      if (textAnchor) commitText();
+      else setTextAnchor(p);
+    } else {
+      setCurrentPoints([p]);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!isDrawing || !e.isPrimary) return;
+    if (isErasing) { eraseAt(getNormPoint(e)); return; }
+    if (currentPoints.length === 0) return;
+    // Shapes only need their start and end; freehand keeps the full path,
+    // including the extra samples pens deliver between animation frames.
+    if (tool === 'pen') {
+      const samples = e.nativeEvent.getCoalescedEvents?.() || [];
+      const next = samples.length > 0 ? samples.map(getNormPoint) : [getNormPoint(e)];
+      setCurrentPoints(prev => [...prev, ...next]);
+    } else {
+      setCurrentPoints([currentPoints[0], getNormPoint(e)]);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!e.isPrimary) return;
+    setIsErasing(false);
+    if (!isDrawing || currentPoints.length === 0) return;
+    if (currentPoints.length > 1) {
+      const points = tool === 'pen' ? simplifyPoints(currentPoints, 1, width, height) : currentPoints;
+      onDrawEnd({ tool: tool as StrokeTool, color, width: strokeWidth, points: points.map(roundPoint) });
+    }
+    setCurrentPoints([]);
+  };
+
+  useEffect(() => {
+    if (!isDrawing) cancelText();
+  }, [isDrawing]);
+
+  useEffect(() => {
+    onDrawProgress?.(currentPoints.length > 1
+      ? { tool: tool as StrokeTool, color, width: strokeWidth, points: currentPoints.map(roundPoint) }
+      : null);
+  }, [currentPoints]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // The backing store is in device pixels; draw in CSS pixels on top of it.
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    const draw = (stroke: Stroke) => renderStroke(ctx, stroke, width, height);
+
+    drawingData.forEach(draw);
+    if (currentPoints.length > 0) draw({ tool: tool as StrokeTool, color, width: strokeWidth, points: currentPoints });
+    if (activeCommentDrawing) activeCommentDrawing.forEach(draw);
+    if (liveStrokes) liveStrokes.forEach(draw);
+
+  }, [width, height, dpr, drawingData, currentPoints, activeCommentDrawing, liveStrokes, tool, color, strokeWidth]);
+
+  return (
+    <>
+      <canvas 
+        ref={canvasRef}
+        width={Math.round(width * dpr)}
+        height={Math.round(height * dpr)}
+        style={{ width, height }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`absolute inset-0 z-20 ${isDrawing ? `pointer-events-auto touch-none ${tool === 'text' ? 'cursor-text' : 'cursor-crosshair'}` : 'pointer-events-none'}`}
+      />
+      {textAnchor && (
+        <input 
+          autoFocus
+          value={textDraft}
+          onChange={(e) => setTextDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitText();
+            if (e.key === 'Escape') cancelText();
+          }}
+          placeholder="Label"
+          className="absolute z-30 pointer-events-auto bg-black/60 border border-white/40 rounded px-1 outline-none font-bold"
+          style={{
+            left: textAnchor.x * width,
+            top: textAnchor.y * height,
+            color,
+            fontSize: textFontSize({ color, width: strokeWidth, points: [] }),
+          }}
+        />
+      )}
+    </>
+  );
+};
+
+// --- Frame Capture ---
+//
+// Grabs stills of a version with a comment's strokes burnt in. Used to show
+// the model what a drawing points at, and by exports that need annotated frames.
+
+interface CapturedFrame {
+  time: number;
+  width: number;
+  height: number;
+  dataUrl: string;
+  strokes: Stroke[]; // In video space, as composited
+}
+
+interface FrameCaptureOptions {
+  width?: number; // Output width in pixels; height follows the video's aspect
+  mimeType?: 'image/jpeg' | 'image/png';
+  quality?: number;
+}
+
+const FRAME_CAPTURE_WIDTH = 1280;
+// Stroke widths are CSS pixels on the player, which is usually about this wide.
+// Scaling from it keeps lines and labels in proportion on other output sizes.
+const STROKE_REFERENCE_WIDTH = LEGACY_PLAYER_SIZE.width;
+
+// "lower-left", "centre", "top-right"... for a point in normalised video space.
+const describeFramePosition = (x: number, y: number) => {
+  const row = y < 1 / 3 ? 'top' : y > 2 / 3 ? 'lower' : '';
+  const col = x < 1 / 3 ? 'left' : x > 2 / 3 ? 'right' : '';
+  return row && col ? `${row}-${col}` : row || col || 'centre';
+};
+
+// Plain-language summary of what was drawn and where, e.g.
+// "ellipse around the lower-left of the frame".
+const describeStrokes = (strokes: Stroke[]) => {
+  const points = strokes.flatMap(s => s.points);
+  if (points.length === 0) return '';
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const tools = [...new Set(strokes.map(s => s.tool || 'pen'))].map(t => t === 'pen' ? 'freehand mark' : t === 'rect' ? 'box' : t);
+  const labels = strokes.filter(s => s.tool === 'text' && s.text).map(s => `"${s.text}"`);
+  const area = (maxX - minX) * (maxY - minY);
+  const where = area > 0.5 ? 'most of the frame' : `the ${describeFramePosition((minX + maxX) / 2, (minY + maxY) / 2)} of the frame`;
+  return `${tools.join(' and ')} around ${where}${labels.length ? ` labelled ${labels.join(', ')}` : ''}`;
+};
+
+const FrameCaptureService = {
+  // Loads the video once for any number of captures. Call close() when done.
+  open: async (videoUrl: string) => {
+    const src = await StorageService.resolveUrl(videoUrl);
+    const release = () => { if (src !== videoUrl) URL.revokeObjectURL(src); };
+    let video: HTMLVideoElement;
+    try {
+      video = await loadProbeVideo(src, /^https?:/.test(src));
+    } catch (err) {
+      release();
+      throw err;
+    }
+
+    return {
+      videoWidth: video.videoWidth,
+      videoHeight: video.videoHeight,
+
+      capture: async (time: number, strokes: Stroke[] = [], options: FrameCaptureOptions = {}): Promise<CapturedFrame> => {
+        const { width = FRAME_CAPTURE_WIDTH, mimeType = 'image/jpeg', quality = 0.8 } = options;
+        const height = Math.round(width * video.videoHeight / video.videoWidth);
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d')!;
+
+        await seekProbeVideo(video, time);
+        ctx.drawImage(video, 0, 0, width, height);
+        const videoStrokes = toVideoSpace(strokes, video.videoWidth, video.videoHeight);
+        const scale = width / STROKE_REFERENCE_WIDTH;
+        videoStrokes.forEach(s => renderStroke(ctx, { ...s, width: s.width * scale }, width, height));
+
+        try {
+          return { time, width, height, dataUrl: canvas.toDataURL(mimeType, quality), strokes: videoStrokes };
+        } catch {
+          throw new Error("The video's host does not allow reading its frames (no CORS headers)");
+        }
+      },
+
+      close: () => {
+        video.removeAttribute('src');
+        video.load();
+        release();
+      },
+    };
+  }
+};
+
+// --- PDF Writer ---
+//
+// Just enough PDF 1.4 for reports: pages of Helvetica text, rectangles, lines
+// and JPEG images. The standard fonts need no embedding; characters outside
+// WinAnsi print as '?'. Coordinates are in points from the top-left corner.
+
+type PdfFont = 'regular' | 'bold';
+
+const PDF_FONT_NAMES: Record<PdfFont, string> = { regular: 'Helvetica', bold: 'Helvetica-Bold' };
+
+// A4 in points.
+const PDF_PAGE_WIDTH = 595.28;
+const PDF_PAGE_HEIGHT = 841.89;
+
+// Helvetica advance widths in 1/1000 em for ' ' through '~', from the standard AFM.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+// Bold runs about this much wider, which is close enough for wrapping.
+const HELVETICA_BOLD_SCALE = 1.08;
+
+// WinAnsi matches Latin-1 from 0xA0 up; these are the useful extras below it.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+  '\u2009': 0x20, '\u202f': 0x20, // Thin spaces, which toLocaleString() emits
+};
+
+const toWinAnsi = (text: string) => Array.from(text, ch => {
+  const code = ch.charCodeAt(0);
+  if (WIN_ANSI_EXTRAS[ch]) return WIN_ANSI_EXTRAS[ch];
+  return (code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff) ? code : 0x3f;
+});
+
+const measurePdfText = (text: string, size: number, font: PdfFont = 'regular') =>
+  toWinAnsi(text).reduce((w, code) => w + (code < 0x7f ? HELVETICA_WIDTHS[code - 0x20] : 556), 0)
+  * size / 1000 * (font === 'bold' ? HELVETICA_BOLD_SCALE : 1);
+
+// Greedy word wrap. Newlines start a new line; words wider than the line
+// (long URLs, mostly) are broken wherever they overflow.
+const wrapPdfText = (text: string, size: number, maxWidth: number, font: PdfFont = 'regular') => {
+  const fits = (s: string) => measurePdfText(s, size, font) <= maxWidth;
+  return text.split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (fits(candidate)) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (!fits(line)) {
+        let cut = line.length - 1;
+        while (cut > 1 && !fits(line.slice(0, cut))) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    return [...lines, line];
+  });
+};
+
+// Literal string with everything outside printable ASCII octal-escaped, so the
+// content stream stays 7-bit.
+const pdfString = (text: string) => `(${toWinAnsi(text).map(code =>
+  code === 0x28 || code === 0x29 || code === 0x5c ? `\\${String.fromCharCode(code)}`
+  : code < 0x7f ? String.fromCharCode(code)
+  : `\\${code.toString(8).padStart(3, '0')}`).join('')})`;
+
+const pdfNumber = (n: number) => (Math.round(n * 100) / 100).toString();
+
+const pdfColor = (hex: string) => [1, 3, 5].map(i => pdfNumber(parseInt(hex.slice(i, i + 2), 16) / 255)).join(' ');
+
+const dataUrlBytes = (dataUrl: string) => Uint8Array.from(atob(dataUrl.slice(dataUrl.indexOf(',') + 1)), ch => ch.charCodeAt(0));
+
+const createPdfWriter = (title: string) => {
+  const pages: string[][] = [];
+  const images: { bytes: Uint8Array, width: number, height: number }[] = [];
+  const flipY = (y: number) => pdfNumber(PDF_PAGE_HEIGHT - y);
+
+  return {
+    get pageCount() { return pages.length; },
+
+    // Returns the new page's index.
+    addPage: () => pages.push([]) - 1,
+
+    // y is the text baseline.
+    text: (page: number, x: number, y: number, text: string, { size = 10, font = 'regular' as PdfFont, color = '#111827' } = {}) => {
+      pages[page].push(`BT /${font === 'bold' ? 'F2' : 'F1'} ${size} Tf ${pdfColor(color)} rg ${pdfNumber(x)} ${flipY(y)} Td ${pdfString(text)} Tj ET`);
+    },
+
+    rect: (page: number, x: number, y: number, width: number, height: number, { fill, stroke }: { fill?: string, stroke?: string }) => {
+      const paint = fill && stroke ? 'B' : fill ? 'f' : 'S';
+      pages[page].push(`${fill ? `${pdfColor(fill)} rg ` : ''}${stroke ? `${pdfColor(stroke)} RG 0.5 w ` : ''}${pdfNumber(x)} ${flipY(y + height)} ${pdfNumber(width)} ${pdfNumber(height)} re ${paint}`);
+    },
+
+    line: (page: number, x1: number, y1: number, x2: number, y2: number, color = '#d1d5db') => {
+      pages[page].push(`${pdfColor(color)} RG 0.5 w ${pdfNumber(x1)} ${flipY(y1)} m ${pdfNumber(x2)} ${flipY(y2)} l S`);
+    },
+
+    // Baseline or progressive JPEGs as produced by canvas.toDataURL('image/jpeg').
+    addJpeg: (dataUrl: string, width: number, height: number) => images.push({ bytes: dataUrlBytes(dataUrl), width, height }) - 1,
+
+    image: (page: number, image: number, x: number, y: number, width: number, height: number) => {
+      pages[page].push(`q ${pdfNumber(width)} 0 0 ${pdfNumber(height)} ${pdfNumber(x)} ${flipY(y + height)} cm /Im${image} Do Q`);
+    },
+
+    toBlob: () => {
+      const encoder = new TextEncoder();
+      const parts: Uint8Array[] = [];
+      const offsets: number[] = [];
+      let size = 0;
+      const write = (chunk: string | Uint8Array) => {
+        const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+        parts.push(bytes);
+        size += bytes.length;
+      };
+      const object = (body: string | (() => void)) => {
+        offsets.push(size);
+        write(`${offsets.length} 0 obj\n`);
+        typeof body === 'string' ? write(body) : body();
+        write('\nendobj\n');
+      };
+
+      // 1 catalog, 2 page tree, 3-4 fonts, then images, then page/content pairs.
+      const firstImage = 5;
+      const firstPage = firstImage + images.length;
+      const xObjects = images.map((_, i) => `/Im${i} ${firstImage + i} 0 R`).join(' ');
+      const resources = `<< /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >>`;
+
+      write('%PDF-1.4\n');
+      write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])); // Binary marker comment
+      object('<< /Type /Catalog /Pages 2 0 R >>');
+      object(`<< /Type /Pages /Count ${pages.length} /Kids [${pages.map((_, i) => `${firstPage + i * 2} 0 R`).join(' ')}] >>`);
+      (['regular', 'bold'] as PdfFont[]).forEach(font =>
+        object(`<< /Type /Font /Subtype /Type1 /BaseFont /${PDF_FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`));
+      images.forEach(img => object(() => {
+        write(`<< /Type /XObject /Subtype /Image /Width ${img.width} /Height ${img.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${img.bytes.length} >>\nstream\n`);
+        write(img.bytes);
+        write('\nendstream');
+      }));
+      pages.forEach((ops, i) => {
+        const content = ops.join('\n');
+        object(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources ${resources} /Contents ${firstPage + i * 2 + 1} 0 R >>`);
+        object(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+      });
+      object(`<< /Title ${pdfString(title)} /Producer (CreatorFeedback) >>`);
+
+      const xref = size;
+      write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+      offsets.forEach(offset => write(`${offset.toString().padStart(10, '0')} 00000 n \n`));
+      write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R /Info ${offsets.length} 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+      return new Blob(parts, { type: 'application/pdf' });
+    },
+  };
+};
+
+type PdfWriter = ReturnType<typeof createPdfWriter>;
+
+// --- Review Report ---
+//
+// A printable PDF of one review round for sign-off. Everything happens in the
+// browser, stills included, so it needs nothing beyond the free Spark plan.
+
+interface ReportOptions {
+  unresolvedOnly?: boolean;
+  includeTally?: boolean; // Resolved/open counts for the whole version
+  analysis?: FeedbackAnalysis | null; // Adds the action checklist
+  onProgress?: (message: string) => void;
+}
+
+const REPORT_MARGIN = 48;
+const REPORT_STILL_WIDTH = 170; // Points on the page
+const REPORT_STILL_PIXELS = 640;
+
+const REPORT_COLORS = {
+  text: '#111827',
+  muted: '#6b7280',
+  reply: '#374151',
+  rule: '#e5e7eb',
+  open: '#d97706',
+  resolved: '#059669',
+};
+
+// Model summaries are markdown; the report prints them as plain text.
+const stripMarkdown = (text: string) => text.replace(/\*\*|__|`/g, '').replace(/\[([^\]]+)\]\([^)]*\)/g, '$1');
+
+const ReportService = {
+  generate: async (project: Project, version: ProjectVersion, comments: Comment[], options: ReportOptions = {}) => {
+    const fps = getFrameRate(project);
+    const timecode = (c: Comment) => formatCommentTime(c, s => formatTimecode(s, fps));
+    const allThreads = buildThreads(comments).filter(t => !t.root.deletedAt);
+    const threads = buildThreads(comments).filter(t => !options.unresolvedOnly || !t.root.resolved);
+
+    // One still per thread. A video we can't read (usually a host without
+    // CORS headers) still gets a report, just without pictures.
+    const stills = new Map<string, CapturedFrame>();
+    let stillsError = '';
+    if (threads.length > 0) {
+      try {
+        const capture = await FrameCaptureService.open(version.videoUrl);
+        try {
+          for (const [i, { root }] of threads.entries()) {
+            options.onProgress?.(`Capturing frame ${i + 1} of ${threads.length}...`);
+            stills.set(root.id, await capture.capture(root.timestamp, root.drawingData, { width: REPORT_STILL_PIXELS, quality: 0.75 }));
+          }
+        } finally {
+          capture.close();
+        }
+      } catch (e) {
+        stillsError = (e as Error).message;
+      }
+    }
+    options.onProgress?.('Building PDF...');
+
+    const pdf = createPdfWriter(`${project.title} v${version.number} review`);
+    const left = REPORT_MARGIN;
+    const right = PDF_PAGE_WIDTH - REPORT_MARGIN;
+    const bottom = PDF_PAGE_HEIGHT - REPORT_MARGIN - 16; // Room for the footer
+    let page = pdf.addPage();
+    let y = REPORT_MARGIN;
+
+    // Starts a new page unless `height` more points fit on this one.
+    const ensure = (height: number) => {
+      if (y + height <= bottom) return;
+      page = pdf.addPage();
+      y = REPORT_MARGIN;
+    };
+
+    const paragraph = (text: string, { size = 10, font = 'regular' as PdfFont, color = REPORT_COLORS.text, indent = 0, width = right - left - indent } = {}) => {
+      const lineHeight = size * 1.35;
+      wrapPdfText(text, size, width, font).forEach(line => {
+        ensure(lineHeight);
+        pdf.text(page, left + indent, y + size, line, { size, font, color });
+        y += lineHeight;
+      });
+    };
+
+    const heading = (text: string) => {
+      ensure(48); // Never strand a heading at the foot of a page
+      y += 14;
+      paragraph(text, { size: 13, font: 'bold' });
+      y += 4;
+    };
+
+    const rule = () => {
+      y += 6;
+      pdf.line(page, left, y, right, y, REPORT_COLORS.rule);
+      y += 6;
+    };
+
+    paragraph(project.title, { size: 20, font: 'bold' });
+    y += 2;
+    paragraph(`Version ${version.number} · uploaded ${new Date(version.createdAt).toLocaleDateString()} · ${fps} fps${isDropFrame(fps) ? ' drop-frame' : ''}`, { color: REPORT_COLORS.muted });
+    paragraph(`Report generated ${new Date().toLocaleString()}${options.unresolvedOnly ? ' · unresolved comments only' : ''}`, { color: REPORT_COLORS.muted });
+    const decision = getLastDecision(version);
+    paragraph(decision
+      ? `${reviewStatusLabel(decision.status)} by ${decision.byName} on ${new Date(decision.at).toLocaleString()}${decision.note ? ` · "${decision.note}"` : ''}`
+      : reviewStatusLabel(getReviewStatus(version)), { font: 'bold' });
+    rule();
+
+    if (options.includeTally) {
+      const resolved = allThreads.filter(t => t.root.resolved).length;
+      heading('Status');
+      paragraph(`${allThreads.length} comment${allThreads.length === 1 ? '' : 's'} · ${resolved} resolved · ${allThreads.length - resolved} open`);
+      y += 4;
+      pdf.rect(page, left, y, right - left, 6, { fill: '#fef3c7' });
+      if (allThreads.length > 0) pdf.rect(page, left, y, (right - left) * resolved / allThreads.length, 6, { fill: REPORT_COLORS.resolved });
+      y += 10;
+    }
+
+    if (options.analysis) {
+      const { items, provider, generatedAt } = options.analysis;
+      heading('Action Checklist');
+      paragraph(`Suggested by ${provider} on ${new Date(generatedAt).toLocaleString()}`, { size: 8, color: REPORT_COLORS.muted });
+      if (items.length === 0) paragraph('No open action items.');
+      FEEDBACK_CATEGORIES.forEach(({ id, label }) => {
+        const inCategory = items.filter(item => item.category === id);
+        if (inCategory.length === 0) return;
+        y += 4;
+        paragraph(label, { size: 9, font: 'bold', color: REPORT_COLORS.muted });
+        inCategory.forEach(item => {
+          paragraph(`• [${item.priority.toUpperCase()}] ${formatTimecode(item.timestamp, fps)}  ${stripMarkdown(item.summary)}`, { indent: 8 });
+          if (item.conflict) paragraph(`Conflict: ${stripMarkdown(item.conflict)}`, { size: 9, color: REPORT_COLORS.open, indent: 16 });
+        });
+      });
+    }
+
+    heading(`Comments (${threads.length})`);
+    if (stillsError) paragraph(`Frame stills unavailable: ${stillsError}`, { size: 9, color: REPORT_COLORS.open });
+    if (threads.length === 0) paragraph('No comments.', { color: REPORT_COLORS.muted });
+
+    threads.forEach(({ root, replies }, i) => {
+      const still = stills.get(root.id);
+      const stillHeight = still ? REPORT_STILL_WIDTH * still.height / still.width : 0;
+      const indent = still ? REPORT_STILL_WIDTH + 14 : 0;
+      const width = right - left - indent;
+
+      ensure(Math.max(stillHeight, 48));
+      const top = y;
+      const topPage = page;
+      if (still) {
+        pdf.image(page, pdf.addJpeg(still.dataUrl, still.width, still.height), left, y, REPORT_STILL_WIDTH, stillHeight);
+        pdf.rect(page, left, y, REPORT_STILL_WIDTH, stillHeight, { stroke: REPORT_COLORS.rule });
+      }
+
+      const status = root.resolved ? 'RESOLVED' : 'OPEN';
+      pdf.text(page, right - measurePdfText(status, 8, 'bold'), y + 10, status, {
+        size: 8, font: 'bold', color: root.resolved ? REPORT_COLORS.resolved : REPORT_COLORS.open,
+      });
+      paragraph(`#${i + 1}  ${timecode(root)}`, { font: 'bold', indent, width: width - 60 });
+      paragraph(`${root.authorName} · ${new Date(root.createdAt).toLocaleString()}${root.carriedFromId ? ' · carried forward' : ''}`, {
+        size: 8, color: REPORT_COLORS.muted, indent, width,
+      });
+      y += 2;
+      paragraph(root.deletedAt ? '[deleted]' : root.text, { indent, width });
+      if (!still && root.drawingData?.length) {
+        const strokes = toVideoSpace(root.drawingData, version.width || 0, version.height || 0);
+        paragraph(`Drawing: ${describeStrokes(strokes)}`, { size: 9, color: REPORT_COLORS.muted, indent, width });
+      }
+      replies.forEach(reply => {
+        y += 2;
+        paragraph(`${reply.authorName}: ${reply.text}`, { size: 9, color: REPORT_COLORS.reply, indent: indent + 10, width: width - 10 });
+      });
+
+      if (page === topPage) y = Math.max(y, top + stillHeight);
+      rule();
+    });
+
+    ensure(120);
+    heading('Sign-off');
+    ['Name', 'Signature', 'Date'].forEach(label => {
+      y += 28;
+      pdf.text(page, left, y - 3, label, { size: 9, color: REPORT_COLORS.muted });
+      pdf.line(page, left + 70, y, left + 300, y, REPORT_COLORS.muted);
+    });
+
+    for (let p = 0; p < pdf.pageCount; p++) {
+      const footerY = PDF_PAGE_HEIGHT - REPORT_MARGIN + 12;
+      const pageLabel = `Page ${p + 1} of ${pdf.pageCount}`;
+      pdf.text(p, left, footerY, `${project.title} · v${version.number}`, { size: 8, color: REPORT_COLORS.muted });
+      pdf.text(p, right - measurePdfText(pageLabel, 8), footerY, pageLabel, { size: 8, color: REPORT_COLORS.muted });
+    }
+
+    return pdf.toBlob();
+  },
+};
+
+// --- Drawing Toolbar ---
+
+const DRAW_TOOLS: { tool: DrawTool; label: string; icon: LucideIcon }[] = [
+  { tool: 'pen', label: 'Pen', icon: PenTool },
+  { tool: 'arrow', label: 'Arrow', icon: MoveUpRight },
+  { tool: 'rect', label: 'Rectangle', icon: Square },
+  { tool: 'ellipse', label: 'Ellipse', icon: Circle },
+  { tool: 'text', label: 'Text', icon: Type },
+  { tool: 'eraser', label: 'Eraser', icon: Eraser },
+];
+
+const DrawingToolbar = ({ brush, onChange, onUndo, onRedo, canUndo, canRedo }: {
+  brush: Brush, onChange: (brush: Brush) => void,
+  onUndo: () => void, onRedo: () => void, canUndo: boolean, canRedo: boolean
+}) => (
+  <div className="absolute top-3 left-1/2 -translate-x-1/2 z-30 flex items-center gap-1 bg-gray-800/95 border border-gray-600 rounded-lg px-2 py-1.5 shadow-xl">
+    {DRAW_TOOLS.map(({ tool, label, icon: Icon }) => (
+      <button 
+        key={tool}
+        title={label}
+        onClick={() => onChange({ ...brush, tool })}
+        className={`p-1.5 rounded ${brush.tool === tool ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+      >
+        <Icon size={16} />
+      </button>
+    ))}
+
+    <div className="w-px h-5 bg-gray-600 mx-1" />
+
+    {BRUSH_COLORS.map(c => (
+      <button 
+        key={c}
+        title={c}
+        onClick={() => onChange({ ...brush, color: c })}
+        className={`w-5 h-5 rounded-full border-2 ${brush.color === c ? 'border-white' : 'border-transparent'}`}
+        style={{ backgroundColor: c }}
+      />
+    ))}
+    <input 
+      type="color" 
+      title="Custom colour"
+      value={brush.color}
+      onChange={(e) => onChange({ ...brush, color: e.target.value })}
+      className="w-6 h-6 bg-transparent cursor-pointer"
+    />
+
+    <div className="w-px h-5 bg-gray-600 mx-1" />
+
+    <input 
+      type="range" 
+      min={1} 
+      max={16} 
+      title={`Stroke width: ${brush.width}`}
+      value={brush.width}
+      onChange={(e) => onChange({ ...brush, width: Number(e.target.value) })}
+      className="w-20 accent-blue-500"
+    />
+
+    <div className="w-px h-5 bg-gray-600 mx-1" />
+
+    <button title="Undo (Ctrl+Z)" onClick={onUndo} disabled={!canUndo} className="p-1.5 rounded text-gray-300 hover:bg-gray-700 disabled:opacity-30">
+      <Undo2 size={16} />
+    </button>
+    <button title="Redo (Ctrl+Shift+Z)" onClick={onRedo} disabled={!canRedo} className="p-1.5 rounded text-gray-300 hover:bg-gray-700 disabled:opacity-30">
+      <Redo2 size={16} />
+    </button>
+  </div>
+);
+
+// --- Share Dialog ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never expires', ms: 0 },
+  { label: '24 hours', ms: DAY_MS },
+  { label: '7 days', ms: 7 * DAY_MS },
+  { label: '30 days', ms: 30 * DAY_MS },
+];
+
+const ShareDialog = ({ project, actor, onClose }: { project: Project, actor: Actor, onClose: () => void }) => {
+  const [copied, setCopied] = useState(false);
+  const [expiryMs, setExpiryMs] = useState<number | null>(null); // null until the select is changed
+  const [password, setPassword] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [inviteRole, setInviteRole] = useState<ProjectRole>('collaborator');
+  const [copiedInvite, setCopiedInvite] = useState<string | null>(null);
+  const [invites, setInvites] = useState<ProjectInvite[]>([]);
+  const [teamError, setTeamError] = useState("");
+  const [linkError, setLinkError] = useState("");
+  const canManage = can(getProjectRole(project, actor), 'manage');
+
+  const loadInvites = useCallback(async () => {
+    if (canManage) setInvites(await DatabaseService.listInvites(actor, project.id));
+  }, [canManage, actor.uid, project.id]);
+
+  useEffect(() => {
+    loadInvites().catch(e => setTeamError((e as Error).message));
+  }, [loadInvites]);
+
+  const shareUrl = ShareService.getShareUrl(project);
+  const share = project.share || {};
+  const isExpired = !!share.expiresAt && share.expiresAt < Date.now();
+
+  const handleCopy = async () => {
+    setLinkError("");
+    try {
+      await ShareService.copyLink(project);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      setLinkError((e as Error).message);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setLinkError("");
+    try {
+      await DatabaseService.updateShareSettings(actor, project.id, {
+        ...(expiryMs !== null && { expiresAt: expiryMs ? Date.now() + expiryMs : undefined }),
+        password: password || undefined,
+      });
+      setPassword("");
+      setExpiryMs(null);
+    } catch (e) {
+      setLinkError((e as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateLink = (change: () => Promise<unknown>) => {
+    setLinkError("");
+    change().catch(e => setLinkError((e as Error).message));
+  };
+
+  const copyInvite = async (token: string) => {
+    await navigator.clipboard.writeText(ShareService.getInviteUrl(project, token));
+    setCopiedInvite(token);
+    setTimeout(() => setCopiedInvite(null), 2000);
+  };
+
+  const handleInvite = async () => {
+    setTeamError("");
+    try {
+      const invite = await DatabaseService.createInvite(actor, project.id, inviteRole);
+      await loadInvites();
+      await copyInvite(invite.token);
+    } catch (e) {
+      setTeamError((e as Error).message);
+    }
+  };
+
+  const handleRevokeInvite = async (token: string) => {
+    setTeamError("");
+    try {
+      await DatabaseService.revokeInvite(actor, project.id, token);
+      await loadInvites();
+    } catch (e) {
+      setTeamError((e as Error).message);
+    }
+  };
+
+  const handleMemberRole = async (uid: string, role: ProjectRole | null) => {
+    setTeamError("");
+    try {
+      await DatabaseService.setMemberRole(actor, project.id, uid, role);
+    } catch (e) {
+      setTeamError((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="font-bold text-lg text-gray-900">Share for Review</h2>
+            <p className="text-sm text-gray-500 truncate">{project.title}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700 p-1">
+            <X size={18} />
+          </button>
+        </div>
+
+        {share.revoked ? (
+          <div className="mb-4 px-3 py-2 bg-red-50 border border-red-100 rounded text-sm text-red-700 flex items-center gap-2">
+            <Ban size={14} /> This link has been revoked. Generate a new one to share again.
+          </div>
+        ) : (
+          <div className="flex gap-2 mb-4">
+            <input 
+              readOnly 
+              value={shareUrl} 
+              className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm bg-gray-50 text-gray-700"
+              onFocus={(e) => e.currentTarget.select()}
+            />
+            <Button onClick={handleCopy} icon={copied ? CheckCircle : Copy}>{copied ? 'Copied' : 'Copy'}</Button>
+          </div>
+        )}
+
+        <div className="text-xs text-gray-500 mb-4 space-y-1">
+          <div className="flex items-center gap-1.5">
+            <UserIcon size={12} /> Link visitors can
+            <select 
+              value={share.role || 'commenter'}
+              onChange={(e) => {
+                const role = e.target.value as ShareSettings['role'];
+                updateLink(() => DatabaseService.updateShareSettings(actor, project.id, { expiresAt: share.expiresAt, role }));
+              }}
+              className="border border-gray-200 rounded px-1 py-0.5 text-xs"
+            >
+              <option value="commenter">comment</option>
+              <option value="viewer">only view</option>
+            </select>
+          </div>
+          <div className="flex items-center gap-1.5">
+            <Clock size={12} />
+            {share.expiresAt
+              ? `${isExpired ? 'Expired' : 'Expires'} ${new Date(share.expiresAt).toLocaleString()}`
+              : 'No expiry'}
+          </div>
+          <div className="flex items-center gap-1.5">
+            <Lock size={12} />
+            {!share.password ? 'No password' : share.password.verifier ? 'Password protected' : 'Locked: set the password again to reopen'}
+            {share.password && (
+              <button 
+                onClick={() => updateLink(() => DatabaseService.updateShareSettings(actor, project.id, { expiresAt: share.expiresAt, password: null }))}
+                className="text-blue-600 hover:underline ml-1"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="border-t border-gray-100 pt-4 space-y-3">
+          <div className="flex gap-2">
+            <select 
+              value={expiryMs ?? ''} 
+              onChange={(e) => setExpiryMs(Number(e.target.value))}
+              className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            >
+              <option value="" disabled>{share.expiresAt ? `Expires ${new Date(share.expiresAt).toLocaleString()}` : 'No expiry'}</option>
+              {EXPIRY_OPTIONS.map(o => <option key={o.ms} value={o.ms}>{o.label}</option>)}
+            </select>
+            <input 
+              type="password" 
+              placeholder={share.password ? 'New password' : 'Password (optional)'}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            />
+          </div>
+          <Button onClick={handleSave} disabled={isSaving} className="w-full justify-center">
+            {isSaving ? 'Saving...' : 'Apply Link Settings'}
+          </Button>
+          {linkError && <p className="text-sm text-red-600">{linkError}</p>}
+        </div>
+
+        <div className="flex justify-between mt-4 pt-4 border-t border-gray-100">
+          <Button variant="danger" icon={Ban} disabled={share.revoked} onClick={() => updateLink(() => DatabaseService.revokeShareLink(actor, project.id))}>
+            Revoke
+          </Button>
+          <Button variant="secondary" icon={RefreshCw} onClick={() => updateLink(() => DatabaseService.regeneratePublicId(actor, project.id))}>
+            New Link
+          </Button>
+        </div>
+
+        <div className="mt-4 pt-4 border-t border-gray-100">
+          <h3 className="font-semibold text-sm text-gray-900 mb-2">Team</h3>
+          <ul className="space-y-1.5 mb-3">
+            {project.members.map(m => (
+              <li key={m.uid} className="flex items-center gap-2 text-sm">
+                <Avatar name={m.displayName || 'Editor'} color={defaultAvatarColor(m.uid)} size={22} />
+                <span className="flex-1 truncate text-gray-700">
+                  {m.displayName || 'Editor'}{m.uid === actor.uid && <span className="text-gray-400"> (you)</span>}
+                </span>
+                <select 
+                  value={m.role}
+                  onChange={(e) => handleMemberRole(m.uid, e.target.value as ProjectRole)}
+                  className="border border-gray-300 rounded px-1.5 py-0.5 text-xs"
+                >
+                  {PROJECT_ROLES.map(r => <option key={r.role} value={r.role}>{r.label}</option>)}
+                </select>
+                <button onClick={() => handleMemberRole(m.uid, null)} title="Remove" className="text-gray-400 hover:text-red-600 p-0.5">
+                  <X size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+          {teamError && <p className="text-xs text-red-600 mb-2">{teamError}</p>}
+
+          {invites.length > 0 && (
+            <ul className="space-y-1 mb-3">
+              {invites.map(invite => (
+                <li key={invite.token} className="flex items-center gap-2 text-xs text-gray-500">
+                  <Clock size={12} />
+                  <span className="flex-1">Pending {PROJECT_ROLES.find(r => r.role === invite.role)?.label.toLowerCase()} invite</span>
+                  <button onClick={() => copyInvite(invite.token)} className="text-blue-600 hover:underline">
+                    {copiedInvite === invite.token ? 'Copied' : 'Copy link'}
+                  </button>
+                  <button onClick={() => handleRevokeInvite(invite.token)} className="text-red-600 hover:underline">Revoke</button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            <select 
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as ProjectRole)}
+              title={PROJECT_ROLES.find(r => r.role === inviteRole)?.description}
+              className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            >
+              {PROJECT_ROLES.map(r => <option key={r.role} value={r.role}>{r.label}: {r.description}</option>)}
+            </select>
+            <Button variant="secondary" icon={LinkIcon} onClick={handleInvite}>Invite</Button>
+          </div>
+          <p className="text-xs text-gray-400 mt-1">Creates a single-use link and copies it. The person opening it signs in and joins with that role.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Profile Dialog ---
+
+// Edits the signed-in editor's profile, or the guest identity on share links.
+// Anonymous editors can also turn their session into an email account here.
+const ProfileDialog = ({ asGuest, onClose }: { asGuest?: boolean, onClose: () => void }) => {
+  const { user, guest, updateProfile, upgradeAccount, saveGuest } = useContext(AuthContext);
+  const current: User | null = asGuest ? guest : user;
+  const [displayName, setDisplayName] = useState(current?.displayName || '');
+  const [avatarColor, setAvatarColor] = useState(current?.avatarColor || AVATAR_COLORS[0]);
+  const [email, setEmail] = useState(current?.email || '');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!displayName.trim()) return;
+    if (asGuest) {
+      saveGuest({ displayName: displayName.trim(), email: email.trim(), avatarColor });
+    } else {
+      await updateProfile({ displayName: displayName.trim(), avatarColor });
+    }
+    onClose();
+  };
+
+  const handleUpgrade = async () => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await upgradeAccount(email, password);
+      setPassword('');
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-sm p-6 text-gray-900" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start mb-4">
+          <div className="flex items-center gap-3">
+            <Avatar name={displayName || '?'} color={avatarColor} size={36} />
+            <h2 className="font-bold text-lg">{asGuest ? 'Your Name' : 'Profile'}</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700 p-1">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <input 
+            autoFocus
+            placeholder="Display name"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          />
+          {asGuest && (
+            <input 
+              type="email"
+              placeholder="Email (optional)"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            />
+          )}
+          <div className="flex gap-2">
+            {AVATAR_COLORS.map(c => (
+              <button 
+                key={c}
+                title={c}
+                onClick={() => setAvatarColor(c)}
+                className={`w-6 h-6 rounded-full border-2 ${avatarColor === c ? 'border-gray-900' : 'border-transparent'}`}
+                style={{ backgroundColor: c }}
+              />
+            ))}
+          </div>
+          <Button onClick={handleSave} disabled={!displayName.trim()} className="w-full justify-center">Save</Button>
+        </div>
+
+        {!asGuest && user && (
+          <div className="border-t border-gray-100 mt-4 pt-4 text-sm">
+            {user.isAnonymous ? (
+              <div className="space-y-2">
+                <p className="text-xs text-gray-500">Add an email and password to sign back in to your projects after you exit.</p>
+                <input 
+                  type="email"
+                  placeholder="Email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                />
+                <input 
+                  type="password"
+                  placeholder="Password (6+ characters)"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                />
+                {error && <p className="text-xs text-red-600">{error}</p>}
+                <Button variant="secondary" onClick={handleUpgrade} disabled={isSaving || !email || !password} className="w-full justify-center">
+                  {isSaving ? 'Creating...' : 'Create Account'}
+                </Button>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500 flex items-center gap-1.5"><Lock size={12} /> Signed in as {user.email}</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// --- Notification Center ---
+
+const NotificationCenter = ({ projects, events, isUnread, onOpen, onMarkAllRead, onDigestSettings, onClose }: {
+  projects: Project[], events: ActivityEvent[], isUnread: (e: ActivityEvent) => boolean,
+  onOpen: (projectId: string) => void, onMarkAllRead: () => void, onDigestSettings: () => void, onClose: () => void
+}) => {
+  const titles = new Map(projects.map(p => [p.id, p.title]));
+  const recent = events.slice(0, 50);
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onClick={onClose} />
+      <div className="absolute right-0 top-full mt-2 z-50 w-96 bg-white rounded-xl shadow-2xl border border-gray-200 text-gray-900">
+        <div className="flex justify-between items-center px-4 py-3 border-b border-gray-100">
+          <h2 className="font-semibold text-sm">Notifications</h2>
+          <div className="flex gap-3 text-xs">
+            <button onClick={onMarkAllRead} className="text-blue-600 hover:underline">Mark all read</button>
+            <button onClick={onDigestSettings} className="text-gray-500 hover:underline">Digests</button>
+          </div>
+        </div>
+        {recent.length === 0 ? (
+          <p className="text-sm text-gray-500 p-4">No activity yet.</p>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto divide-y divide-gray-50">
+            {recent.map(e => (
+              <li key={e.id}>
+                <button 
+                  onClick={() => onOpen(e.projectId)}
+                  className={`w-full text-left flex gap-3 px-4 py-3 hover:bg-gray-50 ${isUnread(e) ? 'bg-blue-50/50' : ''}`}
+                >
+                  <Avatar name={e.actorName} color={defaultAvatarColor(e.actorId)} />
+                  <div className="min-w-0 flex-1 text-sm">
+                    <div className="text-gray-800">{describeActivity(e)}</div>
+                    {e.text && <div className="text-xs text-gray-500 truncate">{e.text}</div>}
+                    <div className="text-[11px] text-gray-400 mt-0.5 truncate">
+                      {titles.get(e.projectId)} · {new Date(e.createdAt).toLocaleString()}
+                    </div>
+                  </div>
+                  {isUnread(e) && <span className="w-2 h-2 rounded-full bg-blue-600 mt-1.5 shrink-0" />}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </>
+  );
+};
+
+// --- Digest Settings ---
+
+const DigestDialog = ({ user, projects, onClose }: { user: User, projects: Project[], onClose: () => void }) => {
+  const stored = DigestService.getSettings(user.uid);
+  const [enabled, setEnabled] = useState(stored?.enabled ?? true);
+  const [channel, setChannel] = useState<DigestChannel>(stored?.channel || 'email');
+  const [webhookUrl, setWebhookUrl] = useState(stored?.webhookUrl || '');
+  const [frequency, setFrequency] = useState<DigestFrequency>(stored?.frequency || 'daily');
+  const [status, setStatus] = useState<{ text: string, ok: boolean } | null>(
+    stored?.lastError ? { text: `Last digest failed: ${stored.lastError}`, ok: false } : null
+  );
+  const [isSending, setIsSending] = useState(false);
+  const target = channel === 'email' ? user.email : webhookUrl.trim();
+
+  // Opting in starts the clock, so the first digest doesn't replay old history.
+  // The error is kept: only a delivery attempt clears it.
+  const save = () => {
+    const settings: DigestSettings = {
+      enabled,
+      channel,
+      webhookUrl: webhookUrl.trim() || undefined,
+      frequency,
+      lastSentAt: stored?.enabled ? stored.lastSentAt : Date.now(),
+      lastError: stored?.lastError,
+    };
+    DigestService.saveSettings(user.uid, settings);
+    return settings;
+  };
+
+  const sendTest = async () => {
+    save();
+    setIsSending(true);
+    setStatus(null);
+    try {
+      await DigestService.send(user, projects, true);
+      setStatus({ text: 'Digest sent.', ok: true });
+    } catch (e) {
+      setStatus({ text: (e as Error).message, ok: false });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-sm p-6 text-gray-900" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start mb-4">
+          <h2 className="font-bold text-lg">Activity Digests</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700 p-1">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="space-y-3 text-sm">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+            Send me a summary of new activity
+          </label>
+          <div className="flex gap-2">
+            <select 
+              value={channel}
+              onChange={(e) => setChannel(e.target.value as DigestChannel)}
+              className="border border-gray-300 rounded-lg px-2 py-2 text-sm"
+            >
+              <option value="email">Email</option>
+              <option value="webhook">Webhook</option>
+            </select>
+            <select 
+              value={frequency}
+              onChange={(e) => setFrequency(e.target.value as DigestFrequency)}
+              className="border border-gray-300 rounded-lg px-2 py-2 text-sm"
+            >
+              <option value="hourly">Hourly</option>
+              <option value="daily">Daily</option>
+            </select>
+          </div>
+          {channel === 'email' ? (
+            <p className="text-sm text-gray-700">
+              {user.email ? <>Sent to {user.email}</> : 'Add an email to your account from the profile button to get email digests.'}
+            </p>
+          ) : (
+            <input 
+              type="url"
+              placeholder="https://hooks.example.com/..."
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            />
+          )}
+          <p className="text-xs text-gray-500">
+            Digests cover other people's activity on your projects and are sent while this dashboard is open.
+            {stored?.lastSentAt ? ` Last covered up to ${new Date(stored.lastSentAt).toLocaleString()}.` : ''}
+          </p>
+          {status && <p className={`text-xs ${status.ok ? 'text-green-600' : 'text-red-600'}`}>{status.text}</p>}
+          <div className="flex gap-2 justify-end">
+            <Button variant="secondary" onClick={sendTest} disabled={isSending || !target}>
+              {isSending ? 'Sending...' : 'Send Now'}
+            </Button>
+            <Button onClick={() => { save(); onClose(); }} disabled={enabled && !target}>Save</Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Review Dialog ---
+
+const ReviewStatusBadge = ({ status }: { status: ReviewStatus }) => (
+  <span className={`text-[10px] uppercase tracking-wider font-semibold px-1.5 py-0.5 rounded whitespace-nowrap ${REVIEW_STATUSES.find(s => s.status === status)!.badge}`}>
+    {reviewStatusLabel(status)}
+  </span>
+);
+
+// Approve / request changes for one version, plus its decision history.
+const ReviewDialog = ({ project, version, actor, role, openComments, onClose }: {
+  project: Project, version: ProjectVersion, actor: Actor, role: ProjectRole | null,
+  openComments: number, onClose: () => void
+}) => {
+  const [note, setNote] = useState("");
+  const [allowOpenComments, setAllowOpenComments] = useState(false);
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const current = getReviewStatus(version);
+  const allowed = REVIEW_TRANSITIONS[current].filter(status => can(role, reviewActionFor(status)));
+
+  const decide = async (status: ReviewStatus) => {
+    setIsSaving(true);
+    setError("");
+    try {
+      await DatabaseService.setReviewStatus(actor, project.id, version.id, { status, note, allowOpenComments });
+      onClose();
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md p-6 text-gray-900" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="font-bold text-lg flex items-center gap-2">Review v{version.number} <ReviewStatusBadge status={current} /></h2>
+            <p className="text-sm text-gray-500 truncate">{project.title}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700 p-1">
+            <X size={18} />
+          </button>
+        </div>
+
+        {(allowed.includes('approved') || allowed.includes('changes_requested')) && (
+          <div className="space-y-3">
+            <textarea 
+              placeholder="Note (optional)"
+              rows={3}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full border border-gray-300 rounded-lg p-2 text-sm resize-none"
+            />
+            {openComments > 0 && allowed.includes('approved') && (
+              <div className="px-3 py-2 bg-amber-50 border border-amber-100 rounded text-sm text-amber-800">
+                <div className="flex items-center gap-2">
+                  <AlertTriangle size={14} /> {openComments} comment{openComments === 1 ? ' is' : 's are'} still unresolved.
+                </div>
+                <label className="flex items-center gap-2 mt-1 text-xs cursor-pointer">
+                  <input type="checkbox" checked={allowOpenComments} onChange={(e) => setAllowOpenComments(e.target.checked)} />
+                  Approve anyway
+                </label>
+              </div>
+            )}
+            <div className="flex gap-2 justify-end">
+              {allowed.includes('changes_requested') && (
+                <Button variant="secondary" onClick={() => decide('changes_requested')} disabled={isSaving}>Request Changes</Button>
+              )}
+              {allowed.includes('approved') && (
+                <Button icon={CheckCircle} onClick={() => decide('approved')} disabled={isSaving || (openComments > 0 && !allowOpenComments)}>
+                  Approve
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {(allowed.includes('in_review') || allowed.includes('archived')) && (
+          <div className="flex gap-3 mt-3 text-xs">
+            {allowed.includes('in_review') && (
+              <button onClick={() => decide('in_review')} disabled={isSaving} className="text-blue-600 hover:underline">Reopen review</button>
+            )}
+            {allowed.includes('archived') && (
+              <button onClick={() => decide('archived')} disabled={isSaving} className="text-gray-500 hover:underline">Archive</button>
+            )}
+          </div>
+        )}
+        {allowed.length === 0 && <p className="text-sm text-gray-500">You can't change this version's status.</p>}
+        {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+
+        {version.review && version.review.length > 0 && (
+          <div className="mt-4 pt-4 border-t border-gray-100">
+            <h3 className="font-semibold text-sm mb-2">History</h3>
+            <ul className="space-y-2 max-h-48 overflow-y-auto">
+              {[...version.review].reverse().map(d => (
+                <li key={d.at} className="text-xs text-gray-600">
+                  <div className="flex items-center gap-2">
+                    <ReviewStatusBadge status={d.status} />
+                    <span className="font-medium text-gray-800">{d.byName}</span>
+                    <span className="text-gray-400">{new Date(d.at).toLocaleString()}</span>
+                  </div>
+                  {d.note && <p className="mt-0.5 text-gray-600">{d.note}</p>}
+                  {d.status === 'approved' && d.openComments > 0 && (
+                    <p className="mt-0.5 text-amber-700">Approved with {d.openComments} open comment{d.openComments === 1 ? '' : 's'}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
 
-    const prompt = `
-      You are an assistant for a video editor.
-      Video Title: "${videoTitle}"
-      
-      Summarize the following feedback into a checklist.
-      Use Markdown.
-      
-      Feedback:
-      ${JSON.stringify(feedbackData)}
-    `;
+// --- Export Dialog ---
 
+// `analysis` is reused for the report's checklist when given; otherwise one is
+// requested (usually from the cache) if `allowAI` and the box is ticked.
+const ExportDialog = ({ project, version, analysis, allowAI, onClose }: {
+  project: Project, version: ProjectVersion, analysis?: FeedbackAnalysis | null, allowAI?: boolean, onClose: () => void
+}) => {
+  const [format, setFormat] = useState<ExportFormat>('edl');
+  const [unresolvedOnly, setUnresolvedOnly] = useState(false);
+  const [startAtOneHour, setStartAtOneHour] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exported, setExported] = useState<{ count: number, skipped: number } | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [includeTally, setIncludeTally] = useState(true);
+  const [includeSummary, setIncludeSummary] = useState(!!analysis);
+  const [reportProgress, setReportProgress] = useState<string | null>(null);
+  const [reportError, setReportError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      setExported(await ExportService.download(project, version, { format, unresolvedOnly, startAtOneHour }));
+    } catch (e) {
+      setExported(null);
+      setExportError((e as Error).message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleReport = async () => {
+    setReportError(null);
+    setReportProgress('Loading comments...');
     try {
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
+      const comments = await DatabaseService.getComments(project.id, version.id);
+      let summary: FeedbackAnalysis | null = null;
+      if (includeSummary && allowAI) {
+        setReportProgress('Summarising feedback...');
+        summary = analysis || await AIService.analyzeFeedback(comments, project.title, { video: version });
+      }
+      const pdf = await ReportService.generate(project, version, comments, {
+        unresolvedOnly,
+        includeTally,
+        analysis: summary,
+        onProgress: setReportProgress,
       });
-      return response.text;
+      downloadBlob(pdf, `${exportBaseName(project, version)}_report.pdf`);
     } catch (e) {
-      console.error(e);
-      return "Could not generate summary. Check API Key.";
+      setReportError((e as Error).message);
+    } finally {
+      setReportProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md p-6 text-gray-900" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="font-bold text-lg">Export Review Notes</h2>
+            <p className="text-sm text-gray-500 truncate">{project.title} · v{version.number} · {getFrameRate(project)} fps</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700 p-1">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="space-y-1 mb-4">
+          {EXPORT_FORMATS.map(f => (
+            <label key={f.id} className="flex items-center gap-2 text-sm cursor-pointer">
+              <input type="radio" name="export-format" checked={format === f.id} onChange={() => setFormat(f.id)} />
+              {f.label} <span className="text-gray-400">.{f.extension}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="border-t border-gray-100 pt-4 space-y-2 text-sm">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={unresolvedOnly} onChange={(e) => setUnresolvedOnly(e.target.checked)} />
+            Unresolved comments only
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={startAtOneHour} onChange={(e) => setStartAtOneHour(e.target.checked)} />
+            Timeline starts at 01:00:00:00
+          </label>
+        </div>
+
+        <div className="flex justify-between items-center mt-4 pt-4 border-t border-gray-100">
+          <span className="text-xs text-gray-500">
+            {exportError ? (
+              <span className="text-red-600">{exportError}</span>
+            ) : exported && (
+              <>
+                Exported {exported.count} marker{exported.count === 1 ? '' : 's'}
+                {exported.skipped > 0 && (
+                  <span className="block text-amber-700">
+                    EDLs hold {EDL_MAX_EVENTS} events; {exported.skipped} more left out. Use CSV or XML for all of them.
+                  </span>
+                )}
+              </>
+            )}
+          </span>
+          <Button icon={Download} onClick={handleExport} disabled={isExporting}>
+            {isExporting ? 'Exporting...' : 'Download'}
+          </Button>
+        </div>
+
+        <div className="mt-4 pt-4 border-t border-gray-100 space-y-2 text-sm">
+          <div className="font-medium">PDF report</div>
+          <p className="text-xs text-gray-500">Every comment with its timecode, author, status and an annotated still, plus a sign-off block.</p>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={includeTally} onChange={(e) => setIncludeTally(e.target.checked)} />
+            Resolved / open tally
+          </label>
+          {allowAI && (
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={includeSummary} onChange={(e) => setIncludeSummary(e.target.checked)} />
+              AI action checklist
+            </label>
+          )}
+          {reportError && <p className="text-xs text-red-600">{reportError}</p>}
+          <div className="flex justify-between items-center">
+            <span className="text-xs text-gray-500">{reportProgress}</span>
+            <Button variant="secondary" icon={FileText} onClick={handleReport} disabled={!!reportProgress}>
+              {reportProgress ? 'Generating...' : 'Download PDF'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Markdown ---
+//
+// Renders a small markdown subset straight to React elements, so comment and
+// model text is always escaped: there is no HTML path to inject through.
+// Blocks: paragraphs, headings, bullet/numbered lists, task items, code
+// fences. Inline: **bold**, *italic*, `code`, [links](url), bare URLs and
+// video times like 1:23, which become seek buttons when onSeek is given.
+
+type MarkdownBlock =
+  | { type: 'paragraph'; lines: string[] }
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'list'; ordered: boolean; items: { text: string; checked?: boolean }[] }
+  | { type: 'code'; text: string };
+
+const LIST_ITEM_PATTERN = /^\s*(?:([-*+])|(\d+)[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/;
+
+const parseMarkdownBlocks = (source: string) => {
+  const blocks: MarkdownBlock[] = [];
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) continue;
+
+    if (line.trim().startsWith('```')) {
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith('```')) code.push(lines[i]);
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      continue;
     }
+
+    const item = line.match(LIST_ITEM_PATTERN);
+    if (item) {
+      const ordered = !!item[2];
+      const last = blocks[blocks.length - 1];
+      const list = last?.type === 'list' && last.ordered === ordered ? last : { type: 'list' as const, ordered, items: [] };
+      if (list !== last) blocks.push(list);
+      list.items.push({ text: item[4], checked: item[3] ? item[3] !== ' ' : undefined });
+      continue;
+    }
+
+    const last = blocks[blocks.length - 1];
+    // A line right after a paragraph or list item continues it.
+    if (last?.type === 'paragraph' && lines[i - 1]?.trim()) last.lines.push(line);
+    else if (last?.type === 'list' && lines[i - 1]?.trim()) last.items[last.items.length - 1].text += ` ${line.trim()}`;
+    else blocks.push({ type: 'paragraph', lines: [line] });
   }
+  return blocks;
 };
 
-// --- React Contexts ---------------------------------------------------------
+const INLINE_PATTERN = new RegExp([
+  /`([^`\n]+)`/.source, // 1: code
+  /\*\*([^*\n]+)\*\*/.source, // 2: bold
+  /(?<![\w*])\*([^*\s][^*\n]*?)\*(?![\w*])|(?<!\w)_([^_\s][^_\n]*?)_(?!\w)/.source, // 3, 4: italic
+  /\[([^\]\n]+)\]\(([^)\s]+)\)/.source, // 5, 6: link
+  /(https?:\/\/[^\s<]*[^\s<.,;:!?)\]'"])/.source, // 7: bare URL
+  /(?<![\w:.])((?:\d{1,2}:)?\d{1,2}:\d{2})(?![\w:])/.source, // 8: video time
+].join('|'), 'g');
 
-const AuthContext = createContext<{ user: User | null; login: () => void; logout: () => void }>({
-  user: null, login: () => {}, logout: () => {}
-});
+const SAFE_LINK_PROTOCOLS = ['http:', 'https:', 'mailto:'];
 
-const AuthProvider = ({ children }: { children: React.ReactNode }) => {
-  const [user, setUser] = useState<User | null>(null);
+const safeHref = (href: string) => {
+  try {
+    return SAFE_LINK_PROTOCOLS.includes(new URL(href).protocol) ? href : null;
+  } catch {
+    return null; // Relative or malformed
+  }
+};
 
-  const login = async () => {
-    const u = await AuthService.signInAnonymously();
-    setUser(u);
+// "1:23" -> 83, "1:02:03" -> 3723
+const parseVideoTime = (time: string) => time.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+
+const renderInline = (text: string, onSeek?: (seconds: number) => void): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const [whole, code, bold, italicStar, italicUnderscore, linkText, linkHref, url, time] = match;
+    const key = match.index!;
+    if (key > last) nodes.push(text.slice(last, key));
+    last = key + whole.length;
+
+    if (code !== undefined) {
+      nodes.push(<code key={key} className="px-1 rounded bg-gray-100 font-mono text-[0.9em]">{code}</code>);
+    } else if (bold !== undefined) {
+      nodes.push(<strong key={key}>{renderInline(bold, onSeek)}</strong>);
+    } else if (italicStar !== undefined || italicUnderscore !== undefined) {
+      nodes.push(<em key={key}>{renderInline(italicStar ?? italicUnderscore, onSeek)}</em>);
+    } else if (linkText !== undefined || url !== undefined) {
+      const href = safeHref(linkHref ?? url);
+      nodes.push(href ? (
+        <a 
+          key={key}
+          href={href}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={(e) => e.stopPropagation()}
+          className="text-blue-600 underline break-all"
+        >
+          {linkText !== undefined ? renderInline(linkText) : url}
+        </a>
+      ) : (linkText ?? url));
+    } else if (time !== undefined && onSeek) {
+      nodes.push(
+        <button 
+          key={key}
+          onClick={(e) => { e.stopPropagation(); onSeek(parseVideoTime(time)); }}
+          className="font-mono text-blue-600 hover:underline"
+        >
+          {time}
+        </button>
+      );
+    } else {
+      nodes.push(whole);
+    }
+  }
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+};
+
+const HEADING_STYLES = ['font-bold text-base', 'font-bold', 'font-semibold', 'font-semibold', 'font-medium', 'font-medium'];
+
+const Markdown = ({ text, onSeek, className = '' }: {
+  text: string, onSeek?: (seconds: number) => void, className?: string
+}) => {
+  const blocks = useMemo(() => parseMarkdownBlocks(text), [text]);
+  return (
+    <div className={`space-y-1.5 ${className}`}>
+      {blocks.map((block, i) => {
+        switch (block.type) {
+          case 'heading':
+            return <div key={i} role="heading" aria-level={block.level} className={HEADING_STYLES[block.level - 1]}>{renderInline(block.text, onSeek)}</div>;
+          case 'code':
+            return <pre key={i} className="p-2 rounded bg-gray-100 font-mono text-xs overflow-x-auto whitespace-pre">{block.text}</pre>;
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={i} className={`pl-5 space-y-0.5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, j) => (
+                  <li key={j} className={item.checked !== undefined ? 'list-none -ml-5' : undefined}>
+                    {item.checked !== undefined && (
+                      <input type="checkbox" checked={item.checked} readOnly disabled className="mr-1.5 align-middle" />
+                    )}
+                    {renderInline(item.text, onSeek)}
+                  </li>
+                ))}
+              </List>
+            );
+          }
+          default:
+            return (
+              <p key={i}>
+                {block.lines.map((line, j) => (
+                  <React.Fragment key={j}>
+                    {j > 0 && <br />}
+                    {renderInline(line, onSeek)}
+                  </React.Fragment>
+                ))}
+              </p>
+            );
+        }
+      })}
+    </div>
+  );
+};
+
+// --- Comment Body (Edit / Delete / History) ---
+
+const CommentBody = ({ comment, canEdit, canDelete, onEdit, onDelete, onSeek }: {
+  comment: Comment, canEdit: boolean, canDelete: boolean,
+  onEdit: (text: string) => Promise<unknown>, onDelete: () => Promise<unknown>,
+  onSeek?: (seconds: number) => void // Makes times like "at 1:23" clickable
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(comment.text);
+  const [showHistory, setShowHistory] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleDelete = async () => {
+    setError("");
+    try {
+      await onDelete();
+    } catch (e) {
+      setError((e as Error).message);
+    }
   };
 
-  const logout = async () => {
-    await AuthService.signOut();
-    setUser(null);
-  };
+  if (comment.deletedAt) {
+    return <p className="text-sm text-gray-400 italic">This comment was deleted.</p>;
+  }
+
+  if (isEditing) {
+    const save = async () => {
+      if (!draft.trim()) return;
+      setError("");
+      try {
+        await onEdit(draft.trim());
+        setIsEditing(false);
+      } catch (e) {
+        setError((e as Error).message);
+      }
+    };
+
+    return (
+      <div onClick={(e) => e.stopPropagation()}>
+        <textarea 
+          className="w-full border border-gray-300 rounded p-2 text-sm resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          rows={2}
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); save(); }
+            if (e.key === 'Escape') setIsEditing(false);
+          }}
+        />
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        <div className="flex justify-end gap-2 mt-1">
+          <button onClick={() => setIsEditing(false)} className="text-xs text-gray-500 hover:text-gray-800">Cancel</button>
+          <button onClick={save} className="text-xs font-medium text-blue-600 hover:text-blue-800">Save</button>
+        </div>
+      </div>
+    );
+  }
 
   return (
-    <AuthContext.Provider value={{ user, login, logout }}>
-      {children}
-    </AuthContext.Provider>
+    <div>
+      <div className="text-sm text-gray-600 leading-snug">
+        <Markdown text={comment.text} onSeek={onSeek} />
+        {comment.editedAt && (
+          <button 
+            onClick={(e) => { e.stopPropagation(); setShowHistory(!showHistory); }}
+            className="text-[10px] text-gray-400 hover:underline"
+            title={`Edited ${new Date(comment.editedAt).toLocaleString()}`}
+          >
+            (edited)
+          </button>
+        )}
+      </div>
+
+      {showHistory && comment.editHistory && (
+        <ul className="mt-1 pl-2 border-l-2 border-gray-200 space-y-0.5">
+          {[...comment.editHistory].reverse().map(rev => (
+            <li key={rev.createdAt} className="text-xs text-gray-400">
+              <span className="line-through">{rev.text}</span> · {new Date(rev.createdAt).toLocaleString()}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {(canEdit || canDelete) && (
+        <div className="flex gap-3 mt-1">
+          {canEdit && (
+            <button 
+              onClick={(e) => { e.stopPropagation(); setDraft(comment.text); setIsEditing(true); }}
+              className="flex items-center gap-1 text-xs text-gray-400 hover:text-blue-600"
+            >
+              <Pencil size={10} /> Edit
+            </button>
+          )}
+          {canDelete && (
+            <button 
+              onClick={(e) => { e.stopPropagation(); if (confirm('Delete this comment?')) handleDelete(); }}
+              className="flex items-center gap-1 text-xs text-gray-400 hover:text-red-600"
+            >
+              <Trash2 size={10} /> Delete
+            </button>
+          )}
+        </div>
+      )}
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
   );
 };
 
-// --- Components -------------------------------------------------------------
+// --- Upload Queue Panel ---
 
-const Button = ({ children, onClick, variant = 'primary', icon: Icon, disabled, className = '' }: any) => {
-  const variants: any = {
-    primary: "bg-blue-600 text-white hover:bg-blue-700 shadow-sm",
-    secondary: "bg-white text-gray-700 border border-gray-200 hover:bg-gray-50",
-    danger: "bg-red-50 text-red-600 hover:bg-red-100",
-    ghost: "text-gray-600 hover:bg-gray-100"
-  };
-  
-  return (
-    <button 
-      onClick={onClick}
-      disabled={disabled}
-      className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm transition-all disabled:opacity-50 disabled:cursor-not-allowed ${variants[variant]} ${className}`}
-    >
-      {Icon && <Icon size={16} />}
-      {children}
-    </button>
-  );
+const UPLOAD_STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: 'Queued',
+  uploading: 'Uploading',
+  paused: 'Paused',
+  interrupted: 'Interrupted – pick the file again to resume',
+  error: 'Failed',
+  done: 'Done',
 };
 
-const formatTime = (seconds: number) => {
-  if (!isFinite(seconds)) return "0:00";
-  const m = Math.floor(seconds / 60);
-  const s = Math.floor(seconds % 60);
-  return `${m}:${s.toString().padStart(2, '0')}`;
+const formatBytes = (bytes: number) => {
+  if (bytes < MiB) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * MiB) return `${(bytes / MiB).toFixed(1)} MB`;
+  return `${(bytes / 1024 / MiB).toFixed(2)} GB`;
 };
 
-// --- Whiteboard Canvas Component ---
+const UploadQueue = ({ tasks }: { tasks: UploadTask[] }) => (
+  <div className="mb-6 bg-white rounded-lg border border-gray-200 shadow-sm divide-y divide-gray-100">
+    {tasks.map(task => {
+      const percent = task.size ? Math.round((task.uploaded / task.size) * 100) : 0;
+      return (
+        <div key={task.id} className="flex items-center gap-4 px-4 py-3">
+          {task.status === 'done'
+            ? <CheckCircle className="text-green-600 shrink-0" size={20} />
+            : task.status === 'uploading'
+              ? <Loader2 className="animate-spin text-blue-600 shrink-0" size={20} />
+              : <FileVideo className="text-gray-400 shrink-0" size={20} />}
+          <div className="flex-1 min-w-0">
+            <div className="flex justify-between text-sm mb-1 gap-4">
+              <span className="font-medium text-gray-900 truncate">{task.fileName}</span>
+              <span className="text-xs text-gray-500 whitespace-nowrap">
+                {formatBytes(task.uploaded)} / {formatBytes(task.size)} · {percent}%
+              </span>
+            </div>
+            <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+              <div 
+                className={`h-full transition-all duration-300 ${task.status === 'error' ? 'bg-red-500' : task.status === 'done' ? 'bg-green-500' : 'bg-blue-600'}`}
+                style={{ width: `${percent}%` }} 
+              />
+            </div>
+            <div className={`text-xs mt-1 ${task.status === 'error' ? 'text-red-600' : 'text-gray-500'}`}>
+              {task.error || UPLOAD_STATUS_LABELS[task.status]}
+            </div>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            {(task.status === 'uploading' || task.status === 'queued') && (
+              <button onClick={() => StorageService.pause(task.id)} title="Pause" className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100">
+                <Pause size={16} />
+              </button>
+            )}
+            {(task.status === 'paused' || task.status === 'error') && (
+              <button onClick={() => StorageService.resume(task.id)} title={task.status === 'error' ? 'Retry' : 'Resume'} className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100">
+                {task.status === 'error' ? <RefreshCw size={16} /> : <Play size={16} />}
+              </button>
+            )}
+            {task.status === 'interrupted' && (
+              <label title="Resume" className="cursor-pointer p-1.5 rounded-full text-gray-500 hover:bg-gray-100">
+                <input 
+                  type="file" 
+                  accept="video/mp4,video/quicktime" 
+                  className="hidden" 
+                  onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ""; if (file) StorageService.resume(task.id, file); }} 
+                />
+                <Play size={16} />
+              </label>
+            )}
+            <button 
+              onClick={() => task.status === 'done' ? StorageService.clearCompleted() : StorageService.cancel(task.id)}
+              title={task.status === 'done' ? 'Dismiss' : 'Cancel upload'}
+              className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
 
-const WhiteboardOverlay = ({ 
-  width, height, isDrawing, drawingData, onDrawEnd, activeCommentDrawing 
-}: { 
-  width: number, height: number, isDrawing: boolean, 
-  drawingData: Stroke[], onDrawEnd: (s: Stroke) => void,
-  activeCommentDrawing?: Stroke[]
-}) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [currentPoints, setCurrentPoints] = useState<Point[]>([]);
+// --- Project Thumbnail ---
 
-  const getNormPoint = (e: React.MouseEvent): Point => {
-    const rect = canvasRef.current!.getBoundingClientRect();
-    return {
-      x: (e.clientX - rect.left) / rect.width,
-      y: (e.clientY - rect.top) / rect.height
-    };
-  };
+// "1920×1080 · 23.976 fps · H.264", from whatever MediaService found.
+const describeVersion = (version: ProjectVersion) => [
+  version.width && version.height ? `${version.width}×${version.height}` : '',
+  version.frameRate ? `${version.frameRate} fps` : '',
+  version.codec ? describeCodec(version.codec) : '',
+].filter(Boolean).join(' · ');
 
-  const handleMouseDown = (e: React.MouseEvent) => {
-    if (!isDrawing) return;
-    setCurrentPoints([getNormPoint(e)]);
+// Background styles that show the sprite frame nearest `time`, scaled to fill
+// the element whatever its size. `url` is the sheet resolved by useStoredUrl.
+const spriteFrameStyle = (sprites: SpriteSheet, url: string, time: number): React.CSSProperties => {
+  const { columns, count, interval } = sprites;
+  const rows = Math.ceil(count / columns);
+  const index = Math.max(0, Math.min(count - 1, Math.floor(time / interval)));
+  const col = index % columns;
+  const row = Math.floor(index / columns);
+  return {
+    backgroundImage: `url(${url})`,
+    backgroundSize: `${columns * 100}% ${rows * 100}%`,
+    backgroundPosition: `${columns > 1 ? (col / (columns - 1)) * 100 : 0}% ${rows > 1 ? (row / (rows - 1)) * 100 : 0}%`,
   };
+};
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDrawing || currentPoints.length === 0) return;
-    setCurrentPoints([...currentPoints, getNormPoint(e)]);
-  };
+// Poster with hover scrubbing through the sprite sheet; shows processing and
+// failure states in place of the picture.
+const ProjectThumbnail = ({ project }: { project: Project }) => {
+  const version = getLatestVersion(project);
+  const [scrubFraction, setScrubFraction] = useState<number | null>(null);
+  const thumbnailUrl = useStoredUrl(project.thumbnailUrl);
+  const spriteUrl = useStoredUrl(version.sprites?.url);
+  const sprites = spriteUrl ? version.sprites : undefined;
 
-  const handleMouseUp = () => {
-    if (!isDrawing || currentPoints.length === 0) return;
-    onDrawEnd({ color: '#ef4444', width: 4, points: currentPoints });
-    setCurrentPoints([]);
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setScrubFraction(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
   };
 
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    ctx.clearRect(0, 0, width, height);
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-
-    const drawStroke = (stroke: Stroke) => {
-      if (stroke.points.length < 2) return;
-      ctx.beginPath();
-      ctx.strokeStyle = stroke.color;
-      ctx.lineWidth = stroke.width;
-      ctx.moveTo(stroke.points[0].x * width, stroke.points[0].y * height);
-      for (let i = 1; i < stroke.points.length; i++) {
-        ctx.lineTo(stroke.points[i].x * width, stroke.points[i].y * height);
-      }
-      ctx.stroke();
-    };
-
-    drawingData.forEach(drawStroke);
-    if (currentPoints.length > 0) drawStroke({ color: '#ef4444', width: 4, points: currentPoints });
-    if (activeCommentDrawing) activeCommentDrawing.forEach(drawStroke);
+  return (
+    <div 
+      className="aspect-video bg-gray-900 relative flex items-center justify-center overflow-hidden"
+      onMouseMove={sprites ? handleMouseMove : undefined}
+      onMouseLeave={() => setScrubFraction(null)}
+    >
+      {project.status === 'processing' ? (
+        <div className="flex flex-col items-center gap-2 text-gray-400 text-sm">
+          <Loader2 className="animate-spin" size={28} />
+          Processing…
+        </div>
+      ) : project.status === 'error' ? (
+        <div className="flex flex-col items-center gap-2 text-red-400 text-sm px-6 text-center">
+          <AlertTriangle size={28} />
+          <span>{version.error || 'This video could not be processed'}</span>
+        </div>
+      ) : thumbnailUrl ? (
+        <img src={thumbnailUrl} alt="" className="w-full h-full object-cover" />
+      ) : (
+        <Video className="text-gray-700" size={48} />
+      )}
 
-  }, [width, height, drawingData, currentPoints, activeCommentDrawing]);
+      {project.status === 'ready' && sprites && scrubFraction !== null ? (
+        <>
+          <div className="absolute inset-0" style={spriteFrameStyle(sprites, spriteUrl!, scrubFraction * version.duration)} />
+          <div className="absolute bottom-0 left-0 h-1 bg-blue-500" style={{ width: `${scrubFraction * 100}%` }} />
+        </>
+      ) : project.status === 'ready' && (
+        <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity bg-black/40">
+          <Play className="text-white fill-current" size={32} />
+        </div>
+      )}
 
-  return (
-    <canvas 
-      ref={canvasRef}
-      width={width}
-      height={height}
-      onMouseDown={handleMouseDown}
-      onMouseMove={handleMouseMove}
-      onMouseUp={handleMouseUp}
-      onMouseLeave={handleMouseUp}
-      className={`absolute inset-0 z-20 ${isDrawing ? 'cursor-crosshair' : 'pointer-events-none'}`}
-    />
+      {project.versions.length > 1 && (
+        <span className="absolute top-2 right-2 text-xs font-bold bg-black/60 text-white px-2 py-0.5 rounded">
+          v{version.number}
+        </span>
+      )}
+      {version.duration > 0 && project.status === 'ready' && (
+        <span className="absolute bottom-2 right-2 text-xs font-mono bg-black/60 text-white px-1.5 py-0.5 rounded">
+          {formatTime(version.duration)}
+        </span>
+      )}
+    </div>
   );
 };
 
 // --- Page: Editor Dashboard -------------------------------------------------
 
-const Dashboard = ({ onNavigate }: { onNavigate: (route: any) => void }) => {
+const Dashboard = ({ onNavigate }: { onNavigate: (route: Route) => void }) => {
   const { user, logout } = useContext(AuthContext);
   const [projects, setProjects] = useState<Project[]>([]);
-  const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
+  const [sharingProjectId, setSharingProjectId] = useState<string | null>(null);
+  const [exportingProjectId, setExportingProjectId] = useState<string | null>(null);
+  const [showProfile, setShowProfile] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | 'all'>('all');
+  const [uploads, setUploads] = useState<UploadTask[]>([]);
   const [manualUrlMode, setManualUrlMode] = useState(false);
   const [manualUrl, setManualUrl] = useState("");
+  const [activity, setActivity] = useState<ActivityEvent[]>([]);
+  const [readMarks, setReadMarks] = useState<Record<string, number>>(() => user ? NotificationService.getReadMarks(user.uid) : {});
+  const [showNotifications, setShowNotifications] = useState(false);
+  const [showDigest, setShowDigest] = useState(false);
+  const [loadError, setLoadError] = useState("");
+  const projectsRef = useRef<Project[]>([]);
+  projectsRef.current = projects;
+  const projectIds = projects.map(p => p.id).join(',');
 
   useEffect(() => {
     if (user) {
-      return DatabaseService.subscribeToProjects(user.uid, setProjects);
+      return DatabaseService.subscribeToProjects(user.uid, setProjects, e => setLoadError(`Could not load your projects: ${e.message}`));
     }
   }, [user]);
 
-  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file || !user) return;
-    setIsUploading(true);
-    try {
-      const url = await StorageService.uploadVideo(file, setUploadProgress);
-      await DatabaseService.createProject({
-        editorId: user.uid,
-        title: file.name.replace(/\.[^/.]+$/, ""),
-        videoUrl: url,
-        status: 'ready',
-        duration: 0,
-      });
-    } finally {
-      setIsUploading(false);
-      setUploadProgress(0);
+  // Picks up processing that a closed tab left unfinished.
+  useEffect(() => {
+    if (!user) return;
+    projects
+      .filter(p => can(getProjectRole(p, { uid: user.uid }), 'upload'))
+      .forEach(p => MediaService.resumeStale(p, { uid: user.uid, displayName: user.displayName }));
+  }, [user, projects]);
+
+  useEffect(() => {
+    if (user && projectIds) {
+      return DatabaseService.subscribeToActivity(projectIds.split(','), setActivity, e => setLoadError(`Could not load recent activity: ${e.message}`));
     }
+  }, [user, projectIds]);
+
+  // Failures are saved with the settings and shown in the digest dialog.
+  useEffect(() => {
+    if (!user) return;
+    const timer = setInterval(() => DigestService.send(user, projectsRef.current).catch(() => {}), DIGEST_CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [user]);
+
+  const isUnread = (e: ActivityEvent) => !!user && NotificationService.isUnread(user.uid, readMarks, e);
+  const unread = activity.filter(isUnread);
+  const unreadByProject = new Map<string, number>();
+  unread.forEach(e => unreadByProject.set(e.projectId, (unreadByProject.get(e.projectId) || 0) + 1));
+
+  const openFromNotification = (projectId: string) => {
+    if (user) setReadMarks(NotificationService.markRead(user.uid, [projectId]));
+    onNavigate({ page: 'project', projectId });
+  };
+
+  useEffect(() => StorageService.subscribe(setUploads), []);
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from((e.target.files || []) as ArrayLike<File>);
+    e.target.value = "";
+    if (!user) return;
+    files.forEach(file => StorageService.upload(file, {
+      type: 'project',
+      editorId: user.uid,
+      editorName: user.displayName,
+      title: file.name.replace(/\.[^/.]+$/, ""),
+    }));
   };
 
+  const sharingProject = projects.find(p => p.id === sharingProjectId);
+  const visibleProjects = statusFilter === 'all'
+    ? projects
+    : projects.filter(p => getReviewStatus(getLatestVersion(p)) === statusFilter);
+  const exportingProject = projects.find(p => p.id === exportingProjectId);
+
   const handleManualUrlSubmit = async () => {
     if (!manualUrl || !user) return;
-    await DatabaseService.createProject({
+    const project = await DatabaseService.createProject({
       editorId: user.uid,
+      editorName: user.displayName,
       title: "Linked Video Project",
       videoUrl: manualUrl,
-      status: 'ready',
+      status: 'processing',
       duration: 0,
     });
+    MediaService.process({ uid: user.uid, displayName: user.displayName }, project.id, 'v1', manualUrl);
     setManualUrlMode(false);
     setManualUrl("");
   };
@@ -436,44 +5809,70 @@ const Dashboard = ({ onNavigate }: { onNavigate: (route: any) => void }) => {
           CreatorFeedback
         </div>
         <div className="flex items-center gap-4">
-          <div className="flex items-center gap-2 text-sm text-gray-600 bg-gray-100 py-1 px-3 rounded-full">
-             <UserIcon size={14} /> Anonymous Editor
-          </div>
-          <Button variant="ghost" onClick={logout} icon={LogOut}>Exit Session</Button>
+          {user && (
+            <div className="relative">
+              <button 
+                onClick={() => setShowNotifications(!showNotifications)}
+                title="Notifications"
+                className="relative p-2 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded-full"
+              >
+                <Bell size={18} />
+                {unread.length > 0 && (
+                  <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-600 text-white text-[10px] font-bold flex items-center justify-center">
+                    {unread.length > 99 ? '99+' : unread.length}
+                  </span>
+                )}
+              </button>
+              {showNotifications && (
+                <NotificationCenter 
+                  projects={projects}
+                  events={activity}
+                  isUnread={isUnread}
+                  onOpen={openFromNotification}
+                  onMarkAllRead={() => setReadMarks(NotificationService.markRead(user.uid, projects.map(p => p.id)))}
+                  onDigestSettings={() => { setShowNotifications(false); setShowDigest(true); }}
+                  onClose={() => setShowNotifications(false)}
+                />
+              )}
+            </div>
+          )}
+          {user && (
+            <button 
+              onClick={() => setShowProfile(true)}
+              title={user.isAnonymous ? 'Anonymous session' : user.email}
+              className="flex items-center gap-2 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 py-1 pl-1 pr-3 rounded-full"
+            >
+              <Avatar name={user.displayName} color={user.avatarColor} />
+              {user.displayName}
+              {user.isAnonymous && <span className="text-xs text-gray-400">(anonymous)</span>}
+            </button>
+          )}
+          <Button variant="ghost" onClick={() => { logout(); onNavigate({ page: 'landing' }); }} icon={LogOut}>Exit Session</Button>
         </div>
       </nav>
 
       <main className="max-w-6xl mx-auto p-8">
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8 gap-4">
-          <h1 className="text-2xl font-bold text-gray-900">Your Projects</h1>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Your Projects</h1>
+            {loadError && <p className="text-sm text-red-600 mt-1">{loadError}</p>}
+          </div>
           
           <div className="flex gap-2">
-            {isUploading ? (
-              <div className="flex items-center gap-3 bg-white px-4 py-2 rounded-lg border border-gray-200 shadow-sm w-64">
-                <Loader2 className="animate-spin text-blue-600" size={20} />
-                <div className="flex-1">
-                  <div className="text-xs text-gray-500 mb-1">Uploading {uploadProgress}%</div>
-                  <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
-                    <div className="h-full bg-blue-600 transition-all duration-300" style={{ width: `${uploadProgress}%` }} />
-                  </div>
-                </div>
+             <Button variant="secondary" onClick={() => setManualUrlMode(!manualUrlMode)} icon={LinkIcon}>
+               Link URL
+             </Button>
+             <label className="cursor-pointer">
+              <input type="file" accept="video/mp4,video/quicktime" multiple className="hidden" onChange={handleUpload} />
+              <div className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 shadow-sm font-medium transition-colors">
+                <UploadCloud size={18} /> Upload Video
               </div>
-            ) : (
-              <>
-                 <Button variant="secondary" onClick={() => setManualUrlMode(!manualUrlMode)} icon={LinkIcon}>
-                   Link URL
-                 </Button>
-                 <label className="cursor-pointer">
-                  <input type="file" accept="video/mp4,video/quicktime" className="hidden" onChange={handleUpload} />
-                  <div className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 shadow-sm font-medium transition-colors">
-                    <UploadCloud size={18} /> Upload Video
-                  </div>
-                </label>
-              </>
-            )}
+            </label>
           </div>
         </div>
 
+        {uploads.length > 0 && <UploadQueue tasks={uploads} />}
+
         {manualUrlMode && (
           <div className="mb-6 bg-white p-4 rounded-lg border border-blue-100 shadow-sm animate-in fade-in slide-in-from-top-2">
             <label className="block text-sm font-medium text-gray-700 mb-1">Paste Public Video URL (MP4)</label>
@@ -491,47 +5890,396 @@ const Dashboard = ({ onNavigate }: { onNavigate: (route: any) => void }) => {
           </div>
         )}
 
+        {projects.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-6">
+            {[{ status: 'all' as const, label: 'All' }, ...REVIEW_STATUSES].map(({ status, label }) => {
+              const count = status === 'all'
+                ? projects.length
+                : projects.filter(p => getReviewStatus(getLatestVersion(p)) === status).length;
+              return (
+                <button 
+                  key={status}
+                  onClick={() => setStatusFilter(status)}
+                  className={`text-sm px-3 py-1 rounded-full border transition-colors ${
+                    statusFilter === status ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-600 border-gray-200 hover:border-gray-400'
+                  }`}
+                >
+                  {label} <span className="opacity-60">{count}</span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {projects.length > 0 && visibleProjects.length === 0 && (
+          <p className="text-sm text-gray-500">No projects are {reviewStatusLabel(statusFilter as ReviewStatus).toLowerCase()}.</p>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {projects.map(project => (
+          {visibleProjects.map(project => (
             <div 
               key={project.id} 
-              onClick={() => onNavigate({ page: 'review', projectId: project.id, isEditor: true })}
+              onClick={() => onNavigate(getProjectRole(project, user) ? { page: 'project', projectId: project.id } : { page: 'review', publicId: project.publicId })}
               className="group bg-white rounded-xl border border-gray-200 overflow-hidden hover:shadow-md transition-all cursor-pointer"
             >
-              <div className="aspect-video bg-gray-900 relative flex items-center justify-center">
-                <Video className="text-gray-700" size={48} />
-                <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity bg-black/40">
-                  <Play className="text-white fill-current" size={32} />
-                </div>
-              </div>
+              <ProjectThumbnail project={project} />
               <div className="p-4">
-                <h3 className="font-semibold text-gray-900 truncate">{project.title}</h3>
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="font-semibold text-gray-900 truncate">{project.title}</h3>
+                  <div className="flex items-center gap-1.5 shrink-0">
+                    {unreadByProject.has(project.id) && (
+                      <span title="Unread activity" className="min-w-[18px] h-[18px] px-1 rounded-full bg-blue-600 text-white text-[10px] font-bold flex items-center justify-center">
+                        {unreadByProject.get(project.id)}
+                      </span>
+                    )}
+                    <ReviewStatusBadge status={getReviewStatus(getLatestVersion(project))} />
+                  </div>
+                </div>
+                {describeVersion(getLatestVersion(project)) && (
+                  <div className="text-xs text-gray-500 mt-0.5 truncate">{describeVersion(getLatestVersion(project))}</div>
+                )}
                 <div className="flex justify-between items-center mt-3">
-                  <span className="text-xs text-gray-500">{new Date(project.createdAt).toLocaleDateString()}</span>
-                  <button 
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      alert(`Share Link Copied!\n\nLink: app.com/review/${project.publicId}`);
-                    }}
-                    className="text-blue-600 hover:bg-blue-50 p-1.5 rounded-full transition-colors"
-                  >
-                    <Share2 size={16} />
-                  </button>
+                  <span className="text-xs text-gray-500">
+                    {new Date(project.createdAt).toLocaleDateString()}
+                    {user && getProjectRole(project, { uid: user.uid }) !== 'owner' && (
+                      <> · {PROJECT_ROLES.find(r => r.role === getProjectRole(project, { uid: user.uid }))?.label}</>
+                    )}
+                  </span>
+                  <div className="flex">
+                    <button 
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setExportingProjectId(project.id);
+                      }}
+                      title="Export notes"
+                      className="text-blue-600 hover:bg-blue-50 p-1.5 rounded-full transition-colors"
+                    >
+                      <Download size={16} />
+                    </button>
+                    {can(getProjectRole(project, user && { uid: user.uid }), 'share') && (
+                      <button 
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setSharingProjectId(project.id);
+                        }}
+                        className="text-blue-600 hover:bg-blue-50 p-1.5 rounded-full transition-colors"
+                      >
+                        <Share2 size={16} />
+                      </button>
+                    )}
+                  </div>
                 </div>
               </div>
             </div>
           ))}
         </div>
       </main>
+
+      {sharingProject && user && (
+        <ShareDialog project={sharingProject} actor={{ uid: user.uid }} onClose={() => setSharingProjectId(null)} />
+      )}
+      {exportingProject && (
+        <ExportDialog 
+          project={exportingProject} 
+          version={getLatestVersion(exportingProject)} 
+          allowAI={can(getProjectRole(exportingProject, user && { uid: user.uid }), 'resolve')} 
+          onClose={() => setExportingProjectId(null)} />
+      )}
+      {showProfile && <ProfileDialog onClose={() => setShowProfile(false)} />}
+      {showDigest && user && <DigestDialog user={user} projects={projects} onClose={() => setShowDigest(false)} />}
+    </div>
+  );
+};
+
+// --- Timeline Strip ---
+
+// A version's stored waveform, or one decoded on demand for versions that
+// predate waveform extraction. Decoded peaks are saved when the actor may
+// upload, so the video is only downloaded for this once.
+const useWaveform = (project: Project | null, version: ProjectVersion | null | undefined, actor: Actor | null) => {
+  const [loaded, setLoaded] = useState<{ url: string, peaks: number[] } | null>(null);
+  const ready = !!version && version.status !== 'processing' && version.status !== 'error';
+  const url = ready ? version.waveformUrl || version.videoUrl : undefined;
+  const stored = !!version?.waveformUrl;
+  const canSave = !!project && !!actor && can(getProjectRole(project, actor), 'upload');
+
+  useEffect(() => {
+    if (!url) return;
+    let active = true;
+    (stored ? MediaService.loadWaveform(url) : MediaService.waveformFromUrl(url)).then(
+      peaks => {
+        if (!active) return;
+        setLoaded({ url, peaks });
+        if (!stored && canSave) MediaService.saveWaveform(actor!, project!.id, version!.id, peaks);
+      },
+      () => {}, // No audio, or not fetchable: the timeline just shows no waveform
+    );
+    return () => { active = false; };
+  }, [url, stored, canSave, project?.id, version?.id, actor?.uid]);
+
+  return loaded && loaded.url === url ? loaded.peaks : undefined;
+};
+
+const FILMSTRIP_HEIGHT = 40;
+const WAVEFORM_HEIGHT = 28;
+
+// Filmstrip (from the sprite sheet) and audio waveform above the scrubber.
+// Comment positions are drawn through both so notes line up with cuts and hits.
+const TimelineStrip = ({ version, waveform, duration, currentTime, markers, onSeek, onHover }: {
+  version: ProjectVersion,
+  waveform?: number[],
+  duration: number,
+  currentTime: number,
+  markers: Comment[],
+  onSeek: (time: number) => void,
+  onHover: (time: number | null, x: number) => void,
+}) => {
+  const [stripRef, { width }] = useElementSize<HTMLDivElement>();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const spriteUrl = useStoredUrl(version.sprites?.url);
+  const sprites = spriteUrl ? version.sprites : undefined;
+  const aspect = version.width && version.height ? version.width / version.height : 16 / 9;
+  const tileCount = sprites && width ? Math.max(1, Math.floor(width / (FILMSTRIP_HEIGHT * aspect))) : 0;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !waveform || !width) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(WAVEFORM_HEIGHT * dpr);
+    const ctx = canvas.getContext('2d')!;
+    ctx.scale(dpr, dpr);
+    ctx.fillStyle = '#60a5fa';
+    // One mirrored bar per CSS pixel, taking the loudest bucket it covers.
+    const mid = WAVEFORM_HEIGHT / 2;
+    for (let x = 0; x < width; x++) {
+      const from = Math.floor((x / width) * waveform.length);
+      const to = Math.max(from + 1, Math.floor(((x + 1) / width) * waveform.length));
+      const peak = Math.max(...waveform.slice(from, to));
+      const h = Math.max(0.5, peak * mid);
+      ctx.fillRect(x, mid - h, 1, h * 2);
+    }
+  }, [waveform, width]);
+
+  if (!sprites && !waveform) return null;
+
+  const timeAt = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { time: ((e.clientX - rect.left) / rect.width) * duration, x: e.clientX - rect.left };
+  };
+  const percent = (time: number) => `${(time / (duration || 1)) * 100}%`;
+
+  return (
+    <div 
+      ref={stripRef}
+      className="relative mb-2 rounded overflow-hidden bg-gray-800 cursor-pointer select-none"
+      onClick={(e) => onSeek(timeAt(e).time)}
+      onMouseMove={(e) => { const { time, x } = timeAt(e); onHover(time, x); }}
+      onMouseLeave={() => onHover(null, 0)}
+    >
+      {sprites && (
+        <div className="flex" style={{ height: FILMSTRIP_HEIGHT }}>
+          {Array.from({ length: tileCount }, (_, i) => (
+            <div 
+              key={i}
+              className="flex-1 border-r border-gray-900 last:border-r-0"
+              style={spriteFrameStyle(sprites, spriteUrl!, ((i + 0.5) / tileCount) * (version.duration || duration))}
+            />
+          ))}
+        </div>
+      )}
+      {waveform && (
+        <canvas ref={canvasRef} className="block w-full opacity-70" style={{ height: WAVEFORM_HEIGHT }} />
+      )}
+      <div className="absolute inset-y-0 left-0 bg-black/30 pointer-events-none" style={{ width: percent(currentTime) }} />
+      {markers.map(c => isRangeComment(c) ? (
+        <div 
+          key={c.id}
+          className={`absolute inset-y-0 border-x pointer-events-none z-10 ${c.resolved ? 'bg-green-500/15 border-green-500/70' : 'bg-yellow-400/15 border-yellow-400/70'}`}
+          style={{ left: percent(c.timestamp), width: percent(c.endTimestamp! - c.timestamp) }}
+        />
+      ) : (
+        <div 
+          key={c.id}
+          className={`absolute inset-y-0 w-px pointer-events-none z-10 ${c.resolved ? 'bg-green-500/70' : 'bg-yellow-400/70'}`}
+          style={{ left: percent(c.timestamp) }}
+        />
+      ))}
+      <div className="absolute inset-y-0 w-0.5 bg-white pointer-events-none z-10" style={{ left: percent(currentTime) }} />
+    </div>
+  );
+};
+
+// --- AI Action Checklist ---
+
+const PRIORITY_STYLES: Record<FeedbackPriority, string> = {
+  high: 'bg-red-100 text-red-700',
+  medium: 'bg-amber-100 text-amber-700',
+  low: 'bg-gray-100 text-gray-600',
+};
+
+// An item is done once every comment it links to is resolved, so ticking it
+// and resolving the comments in the list stay in step.
+const ActionChecklist = ({ analysis, comments, fps, onSeek, onSeekTime, onToggle }: {
+  analysis: FeedbackAnalysis,
+  comments: Comment[],
+  fps: number,
+  onSeek: (item: ActionItem) => void,
+  onSeekTime: (seconds: number) => void, // Times mentioned in the model's text
+  onToggle: (item: ActionItem, resolved: boolean) => void,
+}) => {
+  const resolvedIds = new Set(comments.filter(c => c.resolved).map(c => c.id));
+  const isDone = (item: ActionItem) => item.commentIds.every(id => resolvedIds.has(id));
+
+  if (analysis.items.length === 0) {
+    return <p className="text-xs text-purple-800">All feedback resolved! Good job.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {FEEDBACK_CATEGORIES.map(({ id, label }) => {
+        const items = analysis.items.filter(item => item.category === id);
+        if (items.length === 0) return null;
+        return (
+          <div key={id}>
+            <div className="text-[10px] uppercase tracking-wider font-bold text-purple-700 mb-1">
+              {label} · {items.filter(isDone).length}/{items.length}
+            </div>
+            <ul className="space-y-1">
+              {items.map(item => {
+                const done = isDone(item);
+                return (
+                  <li key={item.id} className="flex items-start gap-2 text-xs">
+                    <input 
+                      type="checkbox"
+                      checked={done}
+                      onChange={() => onToggle(item, !done)}
+                      title={done ? 'Reopen linked comments' : 'Resolve linked comments'}
+                      className="mt-0.5 accent-purple-600"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className={done ? 'line-through text-purple-400' : 'text-purple-900'}>
+                        <button onClick={() => onSeek(item)} className="font-mono text-purple-500 hover:underline mr-1 float-left">
+                          {formatTimecode(item.timestamp, fps)}
+                        </button>
+                        <Markdown text={item.summary} onSeek={onSeekTime} />
+                      </div>
+                      <div className="flex items-center gap-1.5 mt-0.5">
+                        <span className={`px-1.5 rounded text-[10px] font-medium ${PRIORITY_STYLES[item.priority]}`}>{item.priority}</span>
+                        {item.commentIds.length > 1 && (
+                          <span className="text-[10px] text-purple-400">{item.commentIds.length} comments</span>
+                        )}
+                      </div>
+                      {item.conflict && (
+                        <div className="mt-1 flex items-start gap-1 text-[11px] text-orange-700 bg-orange-50 rounded px-1.5 py-1">
+                          <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+                          <Markdown text={item.conflict} onSeek={onSeekTime} />
+                        </div>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        );
+      })}
     </div>
   );
 };
 
+// --- Version Compare ---
+
+type CompareMode = 'side' | 'wipe' | 'onion';
+
+const COMPARE_MODES: { mode: CompareMode; label: string; icon: LucideIcon }[] = [
+  { mode: 'side', label: 'Side by side', icon: Columns2 },
+  { mode: 'wipe', label: 'Wipe', icon: SplitSquareHorizontal },
+  { mode: 'onion', label: 'Onion skin', icon: Layers },
+];
+
+// A muted second player that follows the main one. While paused it matches
+// the main player exactly (frame stepping); while playing it only re-seeks on
+// visible drift, since constant seeking stutters.
+const SyncedVideo = ({ src, masterRef, isPlaying, currentTime, className, style }: {
+  src: string, masterRef: React.RefObject<HTMLVideoElement | null>,
+  isPlaying: boolean, currentTime: number,
+  className?: string, style?: React.CSSProperties
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const playableSrc = useStoredUrl(src);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (isPlaying) video.play().catch(() => {});
+    else video.pause();
+  }, [isPlaying]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    const master = masterRef.current;
+    if (!video || !master) return;
+    video.playbackRate = master.playbackRate;
+    if (!isPlaying || Math.abs(video.currentTime - master.currentTime) > 0.1) {
+      video.currentTime = master.currentTime;
+    }
+  }, [currentTime, isPlaying, masterRef]);
+
+  return <video ref={videoRef} src={playableSrc} muted playsInline className={className} style={style} />;
+};
+
+// --- Keyboard Shortcuts Cheat Sheet ---
+
+const REVIEW_SHORTCUTS: { keys: string[]; label: string }[] = [
+  { keys: ['Space'], label: 'Play / pause' },
+  { keys: ['J', 'K', 'L'], label: 'Shuttle back / stop / forward (repeat to speed up)' },
+  { keys: ['←', '→'], label: 'Step one frame' },
+  { keys: ['Shift', '←', '→'], label: 'Step one second' },
+  { keys: ['N'], label: 'Next unresolved comment' },
+  { keys: ['Shift', 'N'], label: 'Previous unresolved comment' },
+  { keys: ['I', 'O'], label: 'Set range in / out point' },
+  { keys: ['D'], label: 'Toggle drawing mode' },
+  { keys: ['Ctrl', 'Z'], label: 'Undo stroke (add Shift to redo)' },
+  { keys: ['C'], label: 'Write a comment' },
+  { keys: ['Esc'], label: 'Leave comment box / drawing mode' },
+  { keys: ['?'], label: 'Show this cheat sheet' },
+];
+
+const ShortcutsOverlay = ({ onClose }: { onClose: () => void }) => (
+  <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+    <div className="bg-gray-800 text-white rounded-xl shadow-2xl w-full max-w-md p-6 border border-gray-700" onClick={(e) => e.stopPropagation()}>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="font-bold flex items-center gap-2"><Keyboard size={18} /> Keyboard Shortcuts</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-white p-1">
+          <X size={18} />
+        </button>
+      </div>
+      <ul className="space-y-2">
+        {REVIEW_SHORTCUTS.map(({ keys, label }) => (
+          <li key={label} className="flex justify-between items-center text-sm">
+            <span className="text-gray-300">{label}</span>
+            <span className="flex gap-1">
+              {keys.map(k => (
+                <kbd key={k} className="font-mono text-xs bg-gray-700 border border-gray-600 rounded px-1.5 py-0.5">{k}</kbd>
+              ))}
+            </span>
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-gray-500 mt-4">Shortcuts are paused while you type in a text field.</p>
+    </div>
+  </div>
+);
+
 // --- Page: Review Interface (Public / Editor) -------------------------------
 
-const ReviewPage = ({ projectId, isEditor, onBack }: { projectId: string, isEditor: boolean, onBack: () => void }) => {
+// shareId: the publicId of the guest link this was opened from, so the link's
+// role applies to visitors who aren't members.
+const ReviewPage = ({ projectId, shareId, onBack }: { projectId: string, shareId?: string, onBack: () => void }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const playerContainerRef = useRef<HTMLDivElement>(null);
+  const [playerContainerRef, playerSize] = useElementSize<HTMLDivElement>();
+  const [videoSize, setVideoSize] = useState({ width: 0, height: 0 });
   
   const [project, setProject] = useState<Project | null>(null);
   const [comments, setComments] = useState<Comment[]>([]);
@@ -539,18 +6287,186 @@ const ReviewPage = ({ projectId, isEditor, onBack }: { projectId: string, isEdit
   const [duration, setDuration] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isDrawingMode, setIsDrawingMode] = useState(false);
-  const [currentDrawings, setCurrentDrawings] = useState<Stroke[]>([]);
+  const drawing = useUndoable<Stroke[]>([]);
+  const currentDrawings = drawing.value;
+  const [brush, setBrush] = useState<Brush>(DEFAULT_BRUSH);
   const [commentText, setCommentText] = useState("");
   const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
-  const [aiSummary, setAiSummary] = useState<string | null>(null);
+  const [replyingToId, setReplyingToId] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState("");
+  const [inPoint, setInPoint] = useState<number | null>(null);
+  const [outPoint, setOutPoint] = useState<number | null>(null);
+  const [loopRange, setLoopRange] = useState<{ start: number, end: number } | null>(null);
+  const [shuttle, setShuttle] = useState(0); // Playback speed; negative is reverse
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showProfile, setShowProfile] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const { user, guest } = useContext(AuthContext);
+  const reviewer = user || guest;
+  const actor: Actor | null = reviewer ? { uid: reviewer.uid, displayName: reviewer.displayName, shareId } : null;
+  const composerRef = useRef<HTMLTextAreaElement>(null);
+  const [analysis, setAnalysis] = useState<FeedbackAnalysis | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [commentError, setCommentError] = useState("");
+  const [loadError, setLoadError] = useState("");
   const [isThinking, setIsThinking] = useState(false);
+  const [streamedText, setStreamedText] = useState(''); // Partial model reply while analysing
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+  const [compare, setCompare] = useState<{ versionId: string, mode: CompareMode } | null>(null);
+  const [compareMix, setCompareMix] = useState(50); // Wipe position / onion opacity, in %
+  const [versionUpload, setVersionUpload] = useState<UploadTask | null>(null);
+  const [liveRoom, setLiveRoom] = useState<string | null>(null);
+  const [liveError, setLiveError] = useState<string | null>(null);
+  const [followHost, setFollowHost] = useState(true);
+  const [liveStroke, setLiveStroke] = useState<Stroke | null>(null);
+  const livePeerIdRef = useRef(newId('peer'));
+
+  useEffect(() => {
+    setLoadError("");
+    return DatabaseService.subscribeToProject(projectId, setProject, e => setLoadError(e.message));
+  }, [projectId]);
+
+  // Picks up processing that a closed tab left unfinished.
+  useEffect(() => {
+    if (project && actor && can(getProjectRole(project, actor), 'upload')) MediaService.resumeStale(project, actor);
+  }, [project, actor?.uid]);
+
+  // Whatever happened up to leaving the page counts as seen.
+  useEffect(() => {
+    if (!user) return;
+    NotificationService.markRead(user.uid, [projectId]);
+    return () => { NotificationService.markRead(user.uid, [projectId]); };
+  }, [user, projectId]);
+
+  // A new cut for this project that is still uploading, if any.
+  useEffect(() => {
+    return StorageService.subscribe(tasks => setVersionUpload(tasks.find(t =>
+      t.target.type === 'version' && t.target.projectId === projectId && t.status !== 'done') || null));
+  }, [projectId]);
+
+  // Follows the newest cut unless the reviewer picked an older one.
+  const version = project && (project.versions.find(v => v.id === selectedVersionId) || getLatestVersion(project));
+  const versionId = version?.id;
+  const compareVersion = compare && project?.versions.find(v => v.id === compare.versionId);
+
+  useEffect(() => {
+    if (!versionId) return;
+    setComments([]);
+    setAnalysis(null); // The checklist belongs to the version it was made from
+    return DatabaseService.subscribeToComments(projectId, setComments, versionId, e => setCommentError(`Could not load comments: ${e.message}`));
+  }, [projectId, versionId]);
+
+  const videoSrc = useStoredUrl(version?.videoUrl);
+  const spriteUrl = useStoredUrl(version?.sprites?.url);
+  const waveform = useWaveform(project, version, actor);
+  // Time under the cursor on the timeline, and its x offset for the preview.
+  const [hoverPreview, setHoverPreview] = useState<{ time: number, x: number } | null>(null);
+  const [timelineRef, timelineSize] = useElementSize<HTMLDivElement>();
+
+  const fps = project ? getFrameRate(project) : DEFAULT_FRAME_RATE;
+
+  const livePeer: LivePeer = {
+    id: livePeerIdRef.current,
+    name: reviewer?.displayName || 'Guest',
+    color: reviewer?.avatarColor || defaultAvatarColor(livePeerIdRef.current),
+  };
+  const live = useLiveSession(liveRoom, livePeer, {
+    versionId: versionId || '',
+    time: currentTime,
+    playing: isPlaying,
+    strokes: isDrawingMode ? [...currentDrawings, ...(liveStroke ? [liveStroke] : [])] : [],
+  });
+  const livePeersHere = live.peers.filter(p => p.versionId === versionId);
+
+  // A new room (the share link was revoked or renewed) ends the old session.
+  useEffect(() => {
+    if (liveRoom && project && project.liveRoom !== liveRoom) setLiveRoom(null);
+  }, [liveRoom, project?.liveRoom]);
+
+  const toggleLive = () => {
+    setLiveError(null);
+    if (liveRoom || !actor || !project) {
+      setLiveRoom(null);
+      return;
+    }
+    DatabaseService.getLiveRoom(actor, project.id).then(setLiveRoom, e => setLiveError((e as Error).message));
+  };
+  const followedHost = live.host && !live.isHost && followHost ? live.host : null;
+
+  // Followers mirror the host's cut, play state and playhead. While playing,
+  // small drift is left alone so playback doesn't stutter.
+  useEffect(() => {
+    if (!followedHost) return;
+    if (followedHost.versionId !== versionId) {
+      if (project?.versions.some(v => v.id === followedHost.versionId)) setSelectedVersionId(followedHost.versionId);
+      return;
+    }
+    const video = videoRef.current;
+    if (!video) return;
+    const tolerance = followedHost.playing ? LIVE_PLAYING_DRIFT : 0.5 / fps;
+    if (Math.abs(video.currentTime - followedHost.time) > tolerance) {
+      video.currentTime = followedHost.time;
+      setCurrentTime(followedHost.time);
+    }
+    if (followedHost.playing && video.paused) {
+      setShuttle(0);
+      video.playbackRate = 1;
+      video.play().catch(() => {}); // Blocked autoplay: the next host update tries again
+      setIsPlaying(true);
+      setIsDrawingMode(false);
+    } else if (!followedHost.playing && !video.paused) {
+      video.pause();
+      setIsPlaying(false);
+    }
+  }, [followedHost, versionId]);
+
+  // Loops playback over the selected range. Polls every animation frame since
+  // timeupdate only fires a few times a second.
+  useEffect(() => {
+    if (!loopRange || !isPlaying) return;
+    let frameId = 0;
+    const tick = () => {
+      const video = videoRef.current;
+      if (video && video.currentTime >= loopRange.end) {
+        video.currentTime = loopRange.start;
+      }
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [loopRange, isPlaying]);
 
+  // Reverse shuttle. Browsers can't play backwards, so step currentTime back
+  // every animation frame at the shuttle speed.
   useEffect(() => {
-    const p = Object.values(MOCK_DB.projects).find(p => p.id === projectId || p.publicId === projectId);
-    if (p) setProject(p);
-    const pId = p ? p.id : projectId;
-    return DatabaseService.subscribeToComments(pId, setComments);
-  }, [projectId]);
+    if (shuttle >= 0) return;
+    let frameId = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const video = videoRef.current;
+      if (!video) return;
+      const next = Math.max(0, video.currentTime + (shuttle * (now - last)) / 1000);
+      video.currentTime = next;
+      setCurrentTime(next);
+      last = now;
+      if (next > 0) frameId = requestAnimationFrame(tick);
+      else setShuttle(0);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [shuttle]);
+
+  // One window listener for the whole page; it calls whatever handler the
+  // latest render installed, so shortcuts always see current state.
+  const shortcutHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => shortcutHandlerRef.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   const handleTimeUpdate = () => {
     if (videoRef.current) setCurrentTime(videoRef.current.currentTime);
@@ -558,6 +6474,8 @@ const ReviewPage = ({ projectId, isEditor, onBack }: { projectId: string, isEdit
 
   const togglePlay = () => {
     if (!videoRef.current) return;
+    setShuttle(0);
+    videoRef.current.playbackRate = 1;
     if (isPlaying) {
       videoRef.current.pause();
     } else {
@@ -567,89 +6485,540 @@ const ReviewPage = ({ projectId, isEditor, onBack }: { projectId: string, isEdit
     setIsPlaying(!isPlaying);
   };
 
-  const seekTo = (time: number) => {
-    if (videoRef.current) {
-      videoRef.current.currentTime = time;
-      setCurrentTime(time);
+  // J/K/L shuttle: each J or L press doubles speed in that direction, up to 8x.
+  const shuttleTo = (rate: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    setShuttle(rate);
+    if (rate > 0) {
+      video.playbackRate = rate;
+      video.play();
+      setIsPlaying(true);
+      setIsDrawingMode(false);
+    } else {
+      video.pause();
+      video.playbackRate = 1;
+      setIsPlaying(false);
+    }
+  };
+
+  const startDrawing = () => {
+    if (isPlaying) togglePlay();
+    setShuttle(0);
+    setIsDrawingMode(true);
+    drawing.reset([]);
+    setActiveCommentId(null);
+  };
+
+  // Jumps to the nearest unresolved thread after (or before) the playhead.
+  const jumpToUnresolved = (direction: 1 | -1) => {
+    const currentFrame = timeToFrame(currentTime, fps);
+    const candidates = buildThreads(comments)
+      .map(t => t.root)
+      .filter(c => !c.resolved && !c.deletedAt)
+      .filter(c => direction > 0 ? timeToFrame(c.timestamp, fps) > currentFrame : timeToFrame(c.timestamp, fps) < currentFrame);
+    const target = direction > 0 ? candidates[0] : candidates[candidates.length - 1];
+    if (!target) return;
+    seekTo(target.timestamp);
+    setActiveCommentId(target.id);
+  };
+
+  // Seeks land mid-frame: browsers can show the previous frame when asked for
+  // an exact frame boundary.
+  const seekToFrame = (frame: number) => {
+    if (!videoRef.current) return;
+    const lastFrame = duration ? timeToFrame(duration, fps) - 1 : Infinity;
+    const target = frameToTime(Math.max(0, Math.min(frame, lastFrame)) + 0.5, fps);
+    videoRef.current.currentTime = target;
+    setCurrentTime(target);
+  };
+
+  const seekTo = (time: number) => seekToFrame(timeToFrame(time, fps));
+
+  const stepFrames = (delta: number) => {
+    if (isPlaying) togglePlay();
+    seekToFrame(timeToFrame(currentTime, fps) + delta);
+  };
+
+  // Editors comment as their profile; share-link visitors as the name they
+  // entered (or their editor profile when they're signed in).
+  const currentAuthor = {
+    authorId: reviewer?.uid || '',
+    authorName: reviewer?.displayName || 'Guest',
+    authorColor: reviewer?.avatarColor,
+  };
+
+  const role = project ? getProjectRole(project, actor) : null;
+  const canComment = can(role, 'comment');
+  const canEdit = (comment: Comment) => canComment && !!project && !!reviewer && isCommentAuthor(project, comment, reviewer.uid);
+  // Authors can delete their own comments; moderators anything.
+  const canDelete = (comment: Comment) => can(role, 'moderate') || canEdit(comment);
+
+  const toggleLoop = (start: number, end: number) => {
+    if (loopRange && loopRange.start === start && loopRange.end === end) {
+      setLoopRange(null);
+      return;
     }
+    setLoopRange({ start, end });
+    seekTo(start);
+    if (!isPlaying) togglePlay();
+  };
+
+  const clearRange = () => {
+    setInPoint(null);
+    setOutPoint(null);
   };
 
   const handleSubmitComment = async () => {
-    if (!commentText.trim() || !project) return;
+    if (!commentText.trim() || !project || !actor) return;
     
-    await DatabaseService.addComment(project.id, {
-      authorId: isEditor ? 'user_1' : 'guest',
-      authorName: isEditor ? 'Editor' : 'Guest Client',
-      text: commentText,
-      timestamp: currentTime,
-      resolved: false,
-      drawingData: currentDrawings.length > 0 ? currentDrawings : undefined
-    });
+    setCommentError("");
+    try {
+      await DatabaseService.addComment(actor, project.id, {
+        ...currentAuthor,
+        text: commentText,
+        versionId,
+        timestamp: pendingRange ? pendingRange.start : snapToFrame(inPoint ?? currentTime, fps),
+        endTimestamp: pendingRange?.end,
+        resolved: false,
+        drawingData: currentDrawings.length > 0 ? currentDrawings : undefined
+      });
+    } catch (e) {
+      setCommentError((e as Error).message);
+      return;
+    }
 
     setCommentText("");
-    setCurrentDrawings([]);
+    drawing.reset([]);
     setIsDrawingMode(false);
+    clearRange();
+  };
+
+  // Both points set (in either order) make a range; a lone in point anchors a
+  // point comment.
+  const pendingRange = inPoint !== null && outPoint !== null && inPoint !== outPoint
+    ? { start: Math.min(inPoint, outPoint), end: Math.max(inPoint, outPoint) }
+    : null;
+
+  shortcutHandlerRef.current = (e: KeyboardEvent) => {
+    if (isTypingTarget(e.target)) return;
+    const key = e.key.toLowerCase();
+
+    if ((e.metaKey || e.ctrlKey) && key === 'z') {
+      if (!isDrawingMode) return;
+      e.preventDefault();
+      if (e.shiftKey) drawing.redo(); else drawing.undo();
+      return;
+    }
+    if (e.metaKey || e.ctrlKey || e.altKey) return;
+
+    const actions: Record<string, () => void> = {
+      ' ': togglePlay,
+      'k': () => shuttleTo(0),
+      'l': () => shuttleTo(shuttle > 0 ? Math.min(shuttle * 2, 8) : 1),
+      'j': () => shuttleTo(shuttle < 0 ? Math.max(shuttle * 2, -8) : -1),
+      'arrowleft': () => e.shiftKey ? seekTo(Math.max(0, currentTime - 1)) : stepFrames(-1),
+      'arrowright': () => e.shiftKey ? seekTo(Math.min(duration, currentTime + 1)) : stepFrames(1),
+      'n': () => jumpToUnresolved(e.shiftKey ? -1 : 1),
+      'i': () => setInPoint(snapToFrame(currentTime, fps)),
+      'o': () => setOutPoint(snapToFrame(currentTime, fps)),
+      'd': () => isDrawingMode ? setIsDrawingMode(false) : canComment && startDrawing(),
+      'c': () => composerRef.current?.focus(),
+      '?': () => setShowShortcuts(!showShortcuts),
+      'escape': () => showShortcuts ? setShowShortcuts(false) : setIsDrawingMode(false),
+    };
+    const action = actions[key];
+    if (!action) return;
+    e.preventDefault();
+    action();
+  };
+
+  const handleSubmitReply = async (parentId: string) => {
+    if (!replyText.trim() || !project || !actor) return;
+    setCommentError("");
+    try {
+      await DatabaseService.addReply(actor, project.id, parentId, { ...currentAuthor, text: replyText });
+    } catch (e) {
+      setCommentError((e as Error).message);
+      return;
+    }
+    setReplyText("");
+    setReplyingToId(null);
+  };
+
+  const handleUploadVersion = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !project) return;
+    const openThreads = buildThreads(comments).filter(t => !t.root.resolved && !t.root.deletedAt).length;
+    const carryForward = openThreads > 0
+      && confirm(`Carry ${openThreads} unresolved comment${openThreads === 1 ? '' : 's'} forward to the new version?`);
+    if (!actor) return;
+    StorageService.upload(file, { type: 'version', projectId: project.id, carryForward, actor });
+    // Follow the latest cut so the new version opens once it lands.
+    setSelectedVersionId(null);
+    setCompare(null);
+  };
+
+  const startCompare = () => {
+    if (!project || !version) return;
+    // Default to the cut just before this one (or after it, when viewing v1).
+    const index = project.versions.findIndex(v => v.id === version.id);
+    const other = project.versions[index > 0 ? index - 1 : index + 1];
+    if (other) setCompare({ versionId: other.id, mode: 'side' });
   };
 
-  const handleSummarize = async () => {
+  const handleSummarize = async (fresh = false) => {
     if (!project) return;
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
     setIsThinking(true);
-    const summary = await AIService.summarizeFeedback(comments, project.title);
-    setAiSummary(summary);
-    setIsThinking(false);
+    setAnalysisError(null);
+    setStreamedText('');
+    try {
+      setAnalysis(await AIService.analyzeFeedback(comments, project.title, {
+        fresh,
+        video: version,
+        signal: controller.signal,
+        onToken: token => setStreamedText(text => text + token),
+      }));
+    } catch (e) {
+      setAnalysisError((e as Error).message);
+    } finally {
+      analysisAbortRef.current = null;
+      setIsThinking(false);
+    }
+  };
+
+  const seekToActionItem = (item: ActionItem) => {
+    seekTo(item.timestamp);
+    setActiveCommentId(item.commentIds[0]);
+  };
+
+  const handleResolve = async (commentIds: string[], resolved: boolean) => {
+    setCommentError("");
+    try {
+      await Promise.all(commentIds.map(id => DatabaseService.resolveComment(actor!, project!.id, id, resolved)));
+    } catch (e) {
+      setCommentError((e as Error).message);
+    }
+  };
+
+  const toggleActionItem = (item: ActionItem, resolved: boolean) => handleResolve(item.commentIds, resolved);
+
+  const handleFrameRate = async (frameRate: number) => {
+    setCommentError("");
+    try {
+      await DatabaseService.setFrameRate(actor!, project!.id, frameRate);
+    } catch (e) {
+      setCommentError((e as Error).message);
+    }
   };
 
+  const activeCommentDrawing = useMemo(() => {
+    const strokes = comments.find(c => c.id === activeCommentId)?.drawingData;
+    return strokes && toVideoSpace(strokes, videoSize.width, videoSize.height);
+  }, [comments, activeCommentId, videoSize]);
+
+  if (!project && loadError) {
+    return (
+      <div className="flex flex-col h-screen items-center justify-center gap-4 bg-gray-900 text-gray-300">
+        <Ban size={32} />
+        <p>Could not load this project: {loadError}</p>
+        <Button variant="secondary" icon={ArrowLeft} onClick={onBack}>Back</Button>
+      </div>
+    );
+  }
   if (!project) return <div className="flex h-screen items-center justify-center"><Loader2 className="animate-spin" /></div>;
 
-  const activeComment = comments.find(c => c.id === activeCommentId);
+  if (!role) {
+    return (
+      <div className="flex flex-col h-screen items-center justify-center gap-4 bg-gray-900 text-gray-300">
+        <Lock size={32} />
+        <p>You don't have access to this project. Ask an owner for an invite.</p>
+        <Button variant="secondary" icon={ArrowLeft} onClick={onBack}>Back</Button>
+      </div>
+    );
+  }
+
+  const videoRect = getVideoContentRect(
+    playerSize.width, playerSize.height, videoSize.width, videoSize.height,
+    videoRef.current ? getComputedStyle(videoRef.current).objectFit : 'contain'
+  );
+  const threads = buildThreads(comments);
 
   return (
     <div className="flex flex-col h-screen bg-gray-900 text-white overflow-hidden">
       <header className="h-14 bg-gray-800 border-b border-gray-700 flex items-center justify-between px-4 shrink-0 z-30 relative">
         <div className="flex items-center gap-4">
-          {isEditor && (
+          {!shareId && (
             <button onClick={onBack} className="hover:bg-gray-700 p-2 rounded-full">
               <ArrowLeft size={20} />
             </button>
           )}
           <h1 className="font-medium truncate max-w-md">{project.title}</h1>
+          <select 
+            value={version!.id}
+            title="Version"
+            onChange={(e) => { setSelectedVersionId(e.target.value); setCompare(null); }}
+            className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-sm"
+          >
+            {[...project.versions].reverse().map(v => (
+              <option key={v.id} value={v.id}>
+                v{v.number}{v === getLatestVersion(project) ? ' (latest)' : ''} · {new Date(v.createdAt).toLocaleDateString()}
+                {v.status === 'processing' ? ' · processing' : v.status === 'error' ? ' · failed' : ''}
+              </option>
+            ))}
+          </select>
+          <button onClick={() => setShowReview(true)} title="Review status">
+            <ReviewStatusBadge status={getReviewStatus(version!)} />
+          </button>
+          {project.versions.length > 1 && (
+            <button 
+              onClick={() => compare ? setCompare(null) : startCompare()}
+              title="Compare versions"
+              className={`p-2 rounded-full ${compare ? 'bg-blue-600 text-white' : 'hover:bg-gray-700 text-gray-300'}`}
+            >
+              <Columns2 size={18} />
+            </button>
+          )}
+          {can(role, 'upload') && (
+            versionUpload ? (
+              <div className="text-sm text-gray-300 flex items-center gap-1.5">
+                {versionUpload.status === 'uploading' && <Loader2 size={14} className="animate-spin" />}
+                {UPLOAD_STATUS_LABELS[versionUpload.status]} v{getLatestVersion(project).number + 1}
+                {' '}{versionUpload.size ? Math.round((versionUpload.uploaded / versionUpload.size) * 100) : 0}%
+                {versionUpload.status === 'uploading' || versionUpload.status === 'queued' ? (
+                  <button onClick={() => StorageService.pause(versionUpload.id)} title="Pause" className="p-1 rounded-full hover:bg-gray-700"><Pause size={14} /></button>
+                ) : versionUpload.status === 'interrupted' ? (
+                  <label title="Resume" className="cursor-pointer p-1 rounded-full hover:bg-gray-700">
+                    <input type="file" accept="video/mp4,video/quicktime" className="hidden" onChange={handleUploadVersion} />
+                    <Play size={14} />
+                  </label>
+                ) : (
+                  <button onClick={() => StorageService.resume(versionUpload.id)} title="Resume" className="p-1 rounded-full hover:bg-gray-700"><Play size={14} /></button>
+                )}
+                <button onClick={() => StorageService.cancel(versionUpload.id)} title="Cancel upload" className="p-1 rounded-full hover:bg-gray-700"><X size={14} /></button>
+              </div>
+            ) : (
+              <label className="cursor-pointer text-sm text-gray-300 hover:text-white flex items-center gap-1.5">
+                <input type="file" accept="video/mp4,video/quicktime" className="hidden" onChange={handleUploadVersion} />
+                <UploadCloud size={16} /> New Version
+              </label>
+            )
+          )}
         </div>
         
-        <div className="flex gap-2">
-          {isEditor && (
+        <div className="flex gap-2 items-center">
+          <button 
+            onClick={toggleLive} 
+            title={liveError || (liveRoom ? 'Leave live session' : 'Start or join a live session')}
+            className={`p-2 rounded-full ${liveRoom ? 'bg-red-600 text-white' : liveError ? 'hover:bg-gray-700 text-red-400' : 'hover:bg-gray-700 text-gray-300'}`}
+          >
+            <Radio size={18} />
+          </button>
+          <button 
+            onClick={() => setShowShortcuts(true)} 
+            title="Keyboard shortcuts (?)"
+            className="hover:bg-gray-700 p-2 rounded-full text-gray-300"
+          >
+            <Keyboard size={18} />
+          </button>
+          <button 
+            onClick={() => setShowExport(true)} 
+            title="Export notes"
+            className="hover:bg-gray-700 p-2 rounded-full text-gray-300"
+          >
+            <Download size={18} />
+          </button>
+          {can(role, 'share') && (
+            <button 
+              onClick={() => setShowShare(true)} 
+              title="Share and team"
+              className="hover:bg-gray-700 p-2 rounded-full text-gray-300"
+            >
+              <Share2 size={18} />
+            </button>
+          )}
+          {can(role, 'edit') ? (
+            <select 
+              value={fps}
+              title="Project frame rate"
+              onChange={(e) => handleFrameRate(Number(e.target.value))}
+              className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1.5 text-sm"
+            >
+              {FRAME_RATES.map(rate => <option key={rate} value={rate}>{rate} fps</option>)}
+            </select>
+          ) : (
+            <span className="text-xs text-gray-400 font-mono">{fps} fps</span>
+          )}
+          {can(role, 'resolve') && (
              <Button 
                variant="secondary" 
                className="!bg-purple-600 !text-white !border-0 hover:!bg-purple-700"
                icon={Sparkles}
-               onClick={handleSummarize}
+               onClick={() => handleSummarize()}
                disabled={isThinking}
              >
-               {isThinking ? 'Analyzing...' : 'AI Summary'}
+               {isThinking ? 'Analyzing...' : 'AI Checklist'}
              </Button>
           )}
         </div>
       </header>
 
+      {liveRoom && (
+        <div className="h-10 bg-gray-800/80 border-b border-gray-700 flex items-center gap-3 px-4 text-sm shrink-0">
+          <span className="flex items-center gap-1.5 text-red-400 font-semibold">
+            <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" /> Live
+          </span>
+          <span className="text-xs text-gray-400">
+            {live.transport === 'relay' ? 'via relay' : live.transport === 'local' ? 'this device only (relay unavailable)' : 'connecting...'}
+          </span>
+          <div className="flex items-center -space-x-1.5">
+            {[livePeer, ...live.peers.map(p => p.peer)].map(peer => (
+              <span 
+                key={peer.id}
+                title={`${peer.name}${peer.id === livePeer.id ? ' (you)' : ''}${live.host?.peer.id === peer.id ? ' · host' : ''}`}
+                className={`relative rounded-full ring-2 ${live.host?.peer.id === peer.id ? 'ring-amber-400' : 'ring-gray-800'}`}
+              >
+                <Avatar name={peer.name} color={peer.color} />
+                {live.host?.peer.id === peer.id && <Crown size={10} className="absolute -top-2 left-1/2 -translate-x-1/2 text-amber-400" />}
+              </span>
+            ))}
+          </div>
+          <div className="flex-1" />
+          {live.host && !live.isHost && (
+            <label className="flex items-center gap-1.5 text-xs text-gray-300 cursor-pointer">
+              <input type="checkbox" checked={followHost} onChange={(e) => setFollowHost(e.target.checked)} />
+              Follow {live.host.peer.name}
+            </label>
+          )}
+          {live.isHost ? (
+            <button onClick={live.releaseHost} className="text-xs text-gray-300 hover:text-white">Stop hosting</button>
+          ) : (
+            <button onClick={live.claimHost} className="text-xs text-amber-400 hover:text-amber-300 flex items-center gap-1">
+              <Crown size={12} /> {live.host ? 'Take over' : 'Host'}
+            </button>
+          )}
+        </div>
+      )}
+
       <div className="flex-1 flex overflow-hidden">
         <div className="flex-1 flex flex-col relative bg-black group">
+          {compare && compareVersion && (
+            <div className="flex items-center gap-3 px-4 py-2 bg-gray-800 border-b border-gray-700 text-sm shrink-0">
+              <span className="text-gray-400">Comparing v{version!.number} with</span>
+              <select 
+                value={compare.versionId}
+                onChange={(e) => setCompare({ ...compare, versionId: e.target.value })}
+                className="bg-gray-700 border border-gray-600 rounded px-2 py-0.5"
+              >
+                {project.versions.filter(v => v.id !== versionId).map(v => (
+                  <option key={v.id} value={v.id}>v{v.number}</option>
+                ))}
+              </select>
+              <div className="flex bg-gray-700 rounded overflow-hidden">
+                {COMPARE_MODES.map(({ mode, label, icon: Icon }) => (
+                  <button 
+                    key={mode}
+                    onClick={() => setCompare({ ...compare, mode })}
+                    className={`flex items-center gap-1 px-2 py-1 ${compare.mode === mode ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}
+                  >
+                    <Icon size={14} /> {label}
+                  </button>
+                ))}
+              </div>
+              {compare.mode !== 'side' && (
+                <input 
+                  type="range" 
+                  min={0} 
+                  max={100} 
+                  value={compareMix}
+                  onChange={(e) => setCompareMix(Number(e.target.value))}
+                  title={compare.mode === 'wipe' ? 'Wipe position' : `v${compareVersion.number} opacity`}
+                  className="w-32 accent-blue-500"
+                />
+              )}
+              <button onClick={() => setCompare(null)} className="ml-auto text-gray-400 hover:text-white">
+                <X size={16} />
+              </button>
+            </div>
+          )}
+
+          <div className="flex-1 flex overflow-hidden">
+          {compare?.mode === 'side' && compareVersion && (
+            <div className="flex-1 relative flex items-center justify-center overflow-hidden border-r border-gray-700">
+              <SyncedVideo 
+                src={compareVersion.videoUrl}
+                masterRef={videoRef}
+                isPlaying={isPlaying}
+                currentTime={currentTime}
+                className="w-full h-full object-contain"
+              />
+              <span className="absolute top-2 left-2 text-xs font-bold bg-black/60 px-2 py-0.5 rounded">v{compareVersion.number}</span>
+            </div>
+          )}
           <div ref={playerContainerRef} className="flex-1 relative flex items-center justify-center overflow-hidden">
              <video 
                ref={videoRef}
-               src={project.videoUrl}
-               className="max-h-full max-w-full"
+               src={videoSrc}
+               className="w-full h-full object-contain"
                onTimeUpdate={handleTimeUpdate}
-               onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+               onLoadedMetadata={(e) => {
+                 setDuration(e.currentTarget.duration);
+                 setVideoSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight });
+               }}
+               onResize={(e) => setVideoSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight })}
                onEnded={() => setIsPlaying(false)}
                onClick={togglePlay}
              />
-             <WhiteboardOverlay
-               width={playerContainerRef.current?.clientWidth || 0}
-               height={playerContainerRef.current?.clientHeight || 0}
-               isDrawing={isDrawingMode}
-               drawingData={currentDrawings}
-               onDrawEnd={(stroke) => setCurrentDrawings([...currentDrawings, stroke])}
-               activeCommentDrawing={activeComment?.drawingData}
-             />
+             {compare && compare.mode !== 'side' && compareVersion && (
+               <>
+                 <SyncedVideo 
+                   src={compareVersion.videoUrl}
+                   masterRef={videoRef}
+                   isPlaying={isPlaying}
+                   currentTime={currentTime}
+                   className="absolute inset-0 w-full h-full object-contain pointer-events-none z-10"
+                   style={compare.mode === 'wipe'
+                     ? { clipPath: `inset(0 0 0 ${compareMix}%)` }
+                     : { opacity: compareMix / 100 }}
+                 />
+                 {compare.mode === 'wipe' && (
+                   <div className="absolute inset-y-0 w-0.5 bg-white/80 z-10 pointer-events-none" style={{ left: `${compareMix}%` }}>
+                     <span className="absolute top-2 right-2 text-xs font-bold bg-black/60 px-2 py-0.5 rounded whitespace-nowrap">v{version!.number}</span>
+                     <span className="absolute top-2 left-2 text-xs font-bold bg-black/60 px-2 py-0.5 rounded whitespace-nowrap">v{compareVersion.number}</span>
+                   </div>
+                 )}
+               </>
+             )}
+             <div 
+               className="absolute pointer-events-none"
+               style={{ left: videoRect.x, top: videoRect.y, width: videoRect.width, height: videoRect.height }}
+             >
+               <WhiteboardOverlay
+                 width={videoRect.width}
+                 height={videoRect.height}
+                 isDrawing={isDrawingMode}
+                 drawingData={currentDrawings}
+                 onDrawEnd={(stroke) => drawing.set(prev => [...prev, stroke])}
+                 onErase={drawing.set}
+                 brush={brush}
+                 activeCommentDrawing={activeCommentDrawing}
+                 onDrawProgress={liveRoom ? setLiveStroke : undefined}
+                 liveStrokes={livePeersHere.flatMap(p => p.strokes)}
+               />
+             </div>
+             {isDrawingMode && (
+               <DrawingToolbar 
+                 brush={brush}
+                 onChange={setBrush}
+                 onUndo={drawing.undo}
+                 onRedo={drawing.redo}
+                 canUndo={drawing.canUndo}
+                 canRedo={drawing.canRedo}
+               />
+             )}
              {!isPlaying && !isDrawingMode && (
                <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
                  <div className="bg-white/10 backdrop-blur-sm p-6 rounded-full shadow-2xl">
@@ -657,49 +7026,130 @@ const ReviewPage = ({ projectId, isEditor, onBack }: { projectId: string, isEdit
                  </div>
                </div>
              )}
+             {version!.status === 'error' && (
+               <div className="absolute inset-0 z-40 bg-gray-900 flex flex-col items-center justify-center gap-3 text-center px-8">
+                 <AlertTriangle className="text-red-400" size={40} />
+                 <div className="font-medium">v{version!.number} could not be processed</div>
+                 <div className="text-sm text-gray-400 max-w-md">{version!.error}</div>
+                 {can(role, 'upload') && <div className="text-sm text-gray-400">Upload a new version to continue the review.</div>}
+               </div>
+             )}
+          </div>
           </div>
 
           <div className="bg-gradient-to-t from-gray-900 to-transparent px-4 pb-4 pt-8">
+            <div ref={timelineRef} className="relative">
+            {hoverPreview && duration > 0 && (
+              <div 
+                className="absolute bottom-full mb-2 -translate-x-1/2 z-30 pointer-events-none flex flex-col items-center"
+                style={{ left: Math.max(80, Math.min(hoverPreview.x, timelineSize.width - 80)) }}
+              >
+                {version!.sprites && spriteUrl && (
+                  <div 
+                    className="w-40 rounded border border-gray-600 shadow-xl bg-black"
+                    style={{
+                      aspectRatio: version!.width && version!.height ? `${version!.width} / ${version!.height}` : '16 / 9',
+                      ...spriteFrameStyle(version!.sprites, spriteUrl, hoverPreview.time),
+                    }}
+                  />
+                )}
+                <span className="mt-1 font-mono text-xs bg-black/80 px-1.5 py-0.5 rounded">{formatTimecode(hoverPreview.time, fps)}</span>
+              </div>
+            )}
+            <TimelineStrip 
+              version={version!}
+              waveform={waveform}
+              duration={duration}
+              currentTime={currentTime}
+              markers={threads.map(t => t.root)}
+              onSeek={seekTo}
+              onHover={(time, x) => setHoverPreview(time === null ? null : { time, x })}
+            />
             <div 
               className="relative h-1.5 bg-gray-700 rounded-full mb-4 cursor-pointer group/time"
               onClick={(e) => {
                 const rect = e.currentTarget.getBoundingClientRect();
                 seekTo(((e.clientX - rect.left) / rect.width) * duration);
               }}
+              onMouseMove={(e) => {
+                const rect = e.currentTarget.getBoundingClientRect();
+                const x = e.clientX - rect.left;
+                setHoverPreview({ time: (x / rect.width) * duration, x });
+              }}
+              onMouseLeave={() => setHoverPreview(null)}
             >
               <div 
                 className="absolute h-full bg-blue-500 rounded-full" 
                 style={{ width: `${(currentTime / (duration || 1)) * 100}%` }} 
               />
-              {comments.map(c => (
+              {(inPoint !== null || outPoint !== null) && (
+                <div 
+                  className="absolute -top-1 -bottom-1 bg-blue-400/30 border-x-2 border-blue-400 pointer-events-none"
+                  style={{
+                    left: `${((pendingRange?.start ?? inPoint ?? outPoint!) / (duration || 1)) * 100}%`,
+                    width: `${pendingRange ? ((pendingRange.end - pendingRange.start) / (duration || 1)) * 100 : 0}%`,
+                  }}
+                />
+              )}
+              {livePeersHere.map(p => (
+                <div 
+                  key={p.peer.id}
+                  title={p.peer.name}
+                  className="absolute -top-1.5 -bottom-1.5 w-0.5 -translate-x-1/2 z-10"
+                  style={{ left: `${(p.time / (duration || 1)) * 100}%`, backgroundColor: p.peer.color }}
+                >
+                  <span className="absolute -top-1.5 left-1/2 -translate-x-1/2 w-2 h-2 rounded-full" style={{ backgroundColor: p.peer.color }} />
+                </div>
+              ))}
+              {threads.map(({ root: c, replies }) => (
                 <div 
                   key={c.id}
-                  className={`absolute top-1/2 -translate-y-1/2 w-2.5 h-2.5 rounded-full border border-gray-900 transform transition-transform hover:scale-150 ${c.resolved ? 'bg-green-500' : 'bg-yellow-400'}`}
-                  style={{ left: `${(c.timestamp / (duration || 1)) * 100}%` }}
+                  className={`absolute top-1/2 -translate-y-1/2 h-2.5 border border-gray-900 transform transition-transform ${isRangeComment(c) ? 'rounded-sm opacity-80 hover:opacity-100' : 'w-2.5 rounded-full hover:scale-150'} ${c.resolved ? 'bg-green-500' : 'bg-yellow-400'}`}
+                  style={{
+                    left: `${(c.timestamp / (duration || 1)) * 100}%`,
+                    ...(isRangeComment(c) && { width: `${((c.endTimestamp! - c.timestamp) / (duration || 1)) * 100}%` }),
+                  }}
                   onClick={(e) => { e.stopPropagation(); seekTo(c.timestamp); setActiveCommentId(c.id); }}
-                />
+                  title={replies.length > 0 ? `${replies.length} ${replies.length === 1 ? 'reply' : 'replies'}` : undefined}
+                >
+                  {replies.length > 0 && (
+                    <span className="absolute -top-4 left-1/2 -translate-x-1/2 text-[9px] leading-none font-bold text-gray-300">
+                      {replies.length}
+                    </span>
+                  )}
+                </div>
               ))}
             </div>
+            </div>
 
             <div className="flex justify-between items-center">
               <div className="flex items-center gap-4">
-                <button onClick={togglePlay} className="text-white hover:text-blue-400">
-                  {isPlaying ? <Pause size={24} /> : <Play size={24} fill="currentColor" />}
-                </button>
-                <span className="font-mono text-sm text-gray-400">
-                  {formatTime(currentTime)} / {formatTime(duration)}
+                <div className="flex items-center gap-2">
+                  <button onClick={() => stepFrames(-1)} title="Previous frame" className="text-gray-400 hover:text-white">
+                    <StepBack size={18} />
+                  </button>
+                  <button onClick={togglePlay} className="text-white hover:text-blue-400">
+                    {isPlaying ? <Pause size={24} /> : <Play size={24} fill="currentColor" />}
+                  </button>
+                  <button onClick={() => stepFrames(1)} title="Next frame" className="text-gray-400 hover:text-white">
+                    <StepForward size={18} />
+                  </button>
+                </div>
+                <span className="font-mono text-sm text-gray-400" title={`${formatTime(currentTime)} / ${formatTime(duration)}`}>
+                  {formatTimecode(currentTime, fps)} / {formatTimecode(duration, fps)}
                 </span>
+                {shuttle !== 0 && shuttle !== 1 && (
+                  <span className="font-mono text-xs text-blue-400 bg-blue-900/40 px-1.5 rounded">
+                    {shuttle < 0 ? '◀◀' : '▶▶'} {Math.abs(shuttle)}x
+                  </span>
+                )}
               </div>
 
               <div className="flex items-center gap-3">
-                {!isDrawingMode ? (
+                {!canComment ? null : !isDrawingMode ? (
                   <button 
-                    onClick={() => {
-                      if (isPlaying) togglePlay();
-                      setIsDrawingMode(true);
-                      setCurrentDrawings([]);
-                      setActiveCommentId(null);
-                    }}
+                    onClick={startDrawing}
+                    title="Draw (D)"
                     className="flex items-center gap-2 bg-gray-800 hover:bg-gray-700 px-3 py-1.5 rounded text-sm border border-gray-600"
                   >
                     <PenTool size={16} /> Draw
@@ -718,31 +7168,77 @@ const ReviewPage = ({ projectId, isEditor, onBack }: { projectId: string, isEdit
         </div>
 
         <div className="w-96 bg-white border-l border-gray-200 flex flex-col text-gray-900 shadow-xl z-20">
-          {aiSummary && (
+          {reviewer && (
+            <div className="px-4 py-2 border-b border-gray-100 flex items-center gap-2 text-xs text-gray-500">
+              <Avatar name={reviewer.displayName} color={reviewer.avatarColor} size={20} />
+              <span className="flex-1 truncate">Commenting as <span className="font-medium text-gray-800">{reviewer.displayName}</span></span>
+              <button onClick={() => setShowProfile(true)} className="text-blue-600 hover:underline">Edit</button>
+            </div>
+          )}
+          {(analysis || analysisError || isThinking) && (
             <div className="p-4 bg-purple-50 border-b border-purple-100 animate-in slide-in-from-top">
               <div className="flex justify-between items-start mb-2">
                 <h3 className="font-bold text-purple-900 text-sm flex items-center gap-2">
-                  <Sparkles size={14} /> AI Feedback Summary
+                  <Sparkles size={14} /> AI Action Checklist
                 </h3>
-                <button onClick={() => setAiSummary(null)} className="text-purple-400 hover:text-purple-700">
-                  <X size={14} />
-                </button>
+                <div className="flex items-center gap-2">
+                  {analysis && !isThinking && (
+                    <button onClick={() => handleSummarize(true)} title="Ask the model again, ignoring the cache" className="text-purple-400 hover:text-purple-700">
+                      <RefreshCw size={14} />
+                    </button>
+                  )}
+                  <button 
+                    onClick={() => { analysisAbortRef.current?.abort(); setAnalysis(null); setAnalysisError(null); }}
+                    title={isThinking ? 'Cancel' : 'Close'}
+                    className="text-purple-400 hover:text-purple-700"
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
               </div>
-              <div className="prose prose-sm text-purple-800 max-h-40 overflow-y-auto text-xs leading-relaxed">
-                <div dangerouslySetInnerHTML={{ __html: aiSummary.replace(/\n/g, '<br/>') }} />
+              <div className="max-h-72 overflow-y-auto">
+                {isThinking ? (
+                  <div className="text-xs text-purple-800 space-y-1">
+                    <div className="flex items-center gap-1.5 text-purple-500">
+                      <Loader2 size={12} className="animate-spin" /> Analysing {threads.filter(t => !t.root.resolved).length} open threads…
+                    </div>
+                    <ul className="list-disc pl-4 space-y-0.5">
+                      {streamedSummaries(streamedText).map((summary, i) => <li key={i}>{summary}</li>)}
+                    </ul>
+                  </div>
+                ) : analysisError ? (
+                  <p className="text-xs text-red-600">{analysisError}</p>
+                ) : (
+                  <ActionChecklist 
+                    analysis={analysis!}
+                    comments={comments}
+                    fps={fps}
+                    onSeek={seekToActionItem}
+                    onSeekTime={seekTo}
+                    onToggle={toggleActionItem}
+                  />
+                )}
               </div>
+              {analysis && !isThinking && (
+                <div className="mt-2 text-[10px] text-purple-400">
+                  {analysis.provider}{analysis.cached ? ' · cached' : ''}
+                  {analysis.provider !== 'fake' && ` · ${analysis.requestsToday} of ${AI_DAILY_REQUEST_LIMIT} requests today`}
+                  {analysis.truncated > 0 && ` · ${analysis.truncated} threads left out to limit cost`}
+                </div>
+              )}
             </div>
           )}
 
           <div className="flex-1 overflow-y-auto p-4 space-y-3">
-            {comments.length === 0 && (
+            {commentError && <p className="text-xs text-red-600">{commentError}</p>}
+            {threads.length === 0 && (
               <div className="text-center py-10 text-gray-400">
                 <MessageSquare className="mx-auto mb-2 opacity-20" size={48} />
                 <p className="text-sm">No comments yet.</p>
                 <p className="text-xs">Click timeline to add one.</p>
               </div>
             )}
-            {comments.map(comment => (
+            {threads.map(({ root: comment, replies }) => (
               <div 
                 key={comment.id}
                 onClick={() => { seekTo(comment.timestamp); setActiveCommentId(comment.id); }}
@@ -753,23 +7249,101 @@ const ReviewPage = ({ projectId, isEditor, onBack }: { projectId: string, isEdit
                 `}
               >
                 <div className="flex justify-between items-start mb-1">
-                  <span className="font-semibold text-sm text-gray-800">{comment.authorName}</span>
+                  <span className="flex items-center gap-1.5 font-semibold text-sm text-gray-800 min-w-0">
+                    <Avatar name={comment.authorName} color={commentAvatarColor(comment)} size={20} />
+                    <span className="truncate">{comment.authorName}</span>
+                  </span>
                   <span className="font-mono text-xs text-gray-500 bg-gray-100 px-1.5 rounded">
-                    {formatTime(comment.timestamp)}
+                    {formatCommentTime(comment, t => formatTimecode(t, fps))}
                   </span>
                 </div>
-                <p className="text-sm text-gray-600 leading-snug">{comment.text}</p>
+                <CommentBody 
+                  comment={comment}
+                  canEdit={canEdit(comment)}
+                  canDelete={canDelete(comment)}
+                  onEdit={(text) => DatabaseService.editComment(actor!, project.id, comment.id, text)}
+                  onDelete={() => DatabaseService.deleteComment(actor!, project.id, comment.id)}
+                  onSeek={seekTo}
+                />
                 
-                {comment.drawingData && (
+                {comment.carriedFromId && (
+                  <div className="mt-2 text-[10px] uppercase tracking-wider text-gray-400 font-medium">Carried forward</div>
+                )}
+
+                {isRangeComment(comment) && (
+                  <button 
+                    onClick={(e) => { e.stopPropagation(); toggleLoop(comment.timestamp, comment.endTimestamp!); }}
+                    className={`mt-2 flex items-center gap-1 text-xs font-medium ${loopRange?.start === comment.timestamp && loopRange?.end === comment.endTimestamp ? 'text-blue-600' : 'text-gray-400 hover:text-blue-600'}`}
+                  >
+                    <Repeat size={10} /> {loopRange?.start === comment.timestamp && loopRange?.end === comment.endTimestamp ? 'Stop loop' : 'Loop range'}
+                  </button>
+                )}
+
+                {comment.drawingData && !comment.deletedAt && (
                   <div className="mt-2 flex items-center gap-1 text-xs text-red-500 font-medium">
                     <PenTool size={10} /> Has Drawing
                   </div>
                 )}
 
-                {isEditor && (
+                {replies.length > 0 && (
+                  <div className="mt-3 pl-3 border-l-2 border-gray-100 space-y-2">
+                    {replies.map(reply => (
+                      <div key={reply.id}>
+                        <span className="flex items-center gap-1.5 font-semibold text-xs text-gray-800">
+                          <Avatar name={reply.authorName} color={commentAvatarColor(reply)} size={16} />
+                          {reply.authorName}
+                        </span>
+                        <CommentBody 
+                          comment={reply}
+                          canEdit={canEdit(reply)}
+                          canDelete={canDelete(reply)}
+                          onEdit={(text) => DatabaseService.editComment(actor!, project.id, reply.id, text)}
+                          onDelete={() => DatabaseService.deleteComment(actor!, project.id, reply.id)}
+                          onSeek={seekTo}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {replyingToId === comment.id ? (
+                  <div className="mt-2" onClick={(e) => e.stopPropagation()}>
+                    <textarea 
+                      className="w-full border border-gray-300 rounded p-2 text-sm resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="Write a reply..."
+                      rows={2}
+                      autoFocus
+                      value={replyText}
+                      onChange={(e) => setReplyText(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSubmitReply(comment.id); }
+                        if (e.key === 'Escape') setReplyingToId(null);
+                      }}
+                    />
+                    <div className="flex justify-end gap-2 mt-1">
+                      <button onClick={() => setReplyingToId(null)} className="text-xs text-gray-500 hover:text-gray-800">Cancel</button>
+                      <button 
+                        onClick={() => handleSubmitReply(comment.id)} 
+                        disabled={!replyText.trim()}
+                        className="text-xs font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                      >
+                        Reply
+                      </button>
+                    </div>
+                  </div>
+                ) : canComment && (
+                  <button 
+                    onClick={(e) => { e.stopPropagation(); setReplyingToId(comment.id); setReplyText(""); }}
+                    className="mt-2 flex items-center gap-1 text-xs text-gray-400 hover:text-blue-600"
+                  >
+                    <Reply size={12} /> Reply
+                  </button>
+                )}
+
+                {can(role, 'resolve') && (
                    <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
                      <button 
-                       onClick={(e) => { e.stopPropagation(); DatabaseService.resolveComment(project.id, comment.id, !comment.resolved); }}
+                       onClick={(e) => { e.stopPropagation(); handleResolve([comment.id], !comment.resolved); }}
                        className={`p-1 rounded-full ${comment.resolved ? 'bg-green-100 text-green-600' : 'bg-gray-100 text-gray-400 hover:bg-green-50 hover:text-green-600'}`}
                      >
                        <CheckCircle size={16} />
@@ -780,24 +7354,56 @@ const ReviewPage = ({ projectId, isEditor, onBack }: { projectId: string, isEdit
             ))}
           </div>
 
-          <div className="p-4 border-t border-gray-200 bg-gray-50">
+          {!canComment && (
+            <div className="p-4 border-t border-gray-200 bg-gray-50 text-xs text-gray-500 flex items-center gap-1.5">
+              <Lock size={12} /> You have view-only access to this project.
+            </div>
+          )}
+          {canComment && <div className="p-4 border-t border-gray-200 bg-gray-50">
              {isDrawingMode && (
                <div className="mb-2 px-3 py-2 bg-red-50 border border-red-100 rounded text-xs text-red-700 flex items-center gap-2">
                  <PenTool size={12} /> 
-                 <span>Drawing active on frame <b>{formatTime(currentTime)}</b></span>
+                 <span>Drawing active on frame <b>{formatTimecode(currentTime, fps)}</b></span>
                </div>
              )}
              <textarea 
+               ref={composerRef}
                className="w-full border border-gray-300 rounded-lg p-3 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
                placeholder={isDrawingMode ? "Add a note about your drawing..." : "Type a comment at current time..."}
                rows={2}
                value={commentText}
                onChange={(e) => setCommentText(e.target.value)}
-               onKeyDown={(e) => e.key === 'Enter' && !e.shiftKey && handleSubmitComment()}
+               onKeyDown={(e) => {
+                 if (e.key === 'Enter' && !e.shiftKey) handleSubmitComment();
+                 // Hand the keyboard back to the player shortcuts.
+                 if (e.key === 'Escape') e.currentTarget.blur();
+               }}
              />
              <div className="flex justify-between items-center mt-2">
                 <div className="text-xs text-gray-400">
-                  Timestamp: {formatTime(currentTime)}
+                  {pendingRange ? (
+                    <>Range: <span className="font-mono">{formatTimecode(pendingRange.start, fps)}–{formatTimecode(pendingRange.end, fps)}</span></>
+                  ) : (
+                    <>Timestamp: <span className="font-mono">{formatTimecode(inPoint ?? currentTime, fps)}</span></>
+                  )}
+                  <div className="flex items-center gap-2 mt-1">
+                    <button onClick={() => setInPoint(snapToFrame(currentTime, fps))} className="hover:text-blue-600" title="Set in point (I)">
+                      In{inPoint !== null && ' ✓'}
+                    </button>
+                    <button onClick={() => setOutPoint(snapToFrame(currentTime, fps))} className="hover:text-blue-600" title="Set out point (O)">
+                      Out{outPoint !== null && ' ✓'}
+                    </button>
+                    {pendingRange && (
+                      <button onClick={() => toggleLoop(pendingRange.start, pendingRange.end)} className="hover:text-blue-600" title="Loop range">
+                        <Repeat size={12} className={loopRange?.start === pendingRange.start && loopRange?.end === pendingRange.end ? 'text-blue-600' : ''} />
+                      </button>
+                    )}
+                    {(inPoint !== null || outPoint !== null) && (
+                      <button onClick={clearRange} className="hover:text-red-600" title="Clear in/out">
+                        <X size={12} />
+                      </button>
+                    )}
+                  </div>
                 </div>
                 <Button 
                   onClick={handleSubmitComment} 
@@ -807,28 +7413,251 @@ const ReviewPage = ({ projectId, isEditor, onBack }: { projectId: string, isEdit
                   Post
                 </Button>
              </div>
-          </div>
+          </div>}
+        </div>
+      </div>
+
+      {showShortcuts && <ShortcutsOverlay onClose={() => setShowShortcuts(false)} />}
+      {showProfile && <ProfileDialog asGuest={!user} onClose={() => setShowProfile(false)} />}
+      {showShare && actor && <ShareDialog project={project} actor={actor} onClose={() => setShowShare(false)} />}
+      {showReview && actor && (
+        <ReviewDialog 
+          project={project}
+          version={version!}
+          actor={actor}
+          role={role}
+          openComments={threads.filter(t => !t.root.resolved && !t.root.deletedAt).length}
+          onClose={() => setShowReview(false)}
+        />
+      )}
+      {showExport && (
+        <ExportDialog project={project} version={version!} analysis={analysis} allowAI={can(role, 'resolve')} onClose={() => setShowExport(false)} />
+      )}
+    </div>
+  );
+};
+
+// --- Page: Shared Review (Guest Link) ---------------------------------------
+
+const SHARE_ERRORS: Record<Exclude<ShareAccess, 'ok' | 'password_required'>, string> = {
+  not_found: "This review link doesn't exist.",
+  revoked: 'This review link has been revoked by the editor.',
+  expired: 'This review link has expired. Ask the editor for a new one.',
+};
+
+const SharedReview = ({ publicId, onExit }: { publicId: string, onExit: () => void }) => {
+  const { user, guest, saveGuest } = useContext(AuthContext);
+  const [project, setProject] = useState<Project | null | undefined>(undefined);
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
+  const [guestName, setGuestName] = useState("");
+  const [guestEmail, setGuestEmail] = useState("");
+  // Bumped after a successful unlock so getAccess re-reads the session.
+  const [, setUnlocked] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setProject(undefined);
+    setError("");
+    DatabaseService.getProjectByPublicId(publicId).then(async p => {
+      if (p) await ShareService.restoreUnlock(p);
+      if (!cancelled) setProject(p);
+    }).catch(e => {
+      if (!cancelled) setError(`Could not open this review: ${(e as Error).message}`);
+    });
+    return () => { cancelled = true; };
+  }, [publicId]);
+
+  if (project === undefined && error) {
+    return (
+      <div className="flex flex-col h-screen items-center justify-center gap-4 bg-gray-900 text-gray-300">
+        <Ban size={32} />
+        <p>{error}</p>
+        <Button variant="secondary" icon={ArrowLeft} onClick={onExit}>Back</Button>
+      </div>
+    );
+  }
+  if (project === undefined) return <div className="flex h-screen items-center justify-center"><Loader2 className="animate-spin" /></div>;
+
+  const access = ShareService.getAccess(project);
+  const accessError = access !== 'ok' && access !== 'password_required' ? SHARE_ERRORS[access] : null;
+
+  // Visitors name themselves once per browser before they can comment.
+  const needsName = access === 'ok' && !user && !guest;
+
+  if (access === 'ok' && !needsName) return <ReviewPage projectId={project!.id} shareId={publicId} onBack={onExit} />;
+
+  const handleGuestContinue = () => {
+    if (guestName.trim()) saveGuest({ displayName: guestName.trim(), email: guestEmail.trim() });
+  };
+
+  const handleUnlock = async () => {
+    try {
+      if (await ShareService.unlock(project!, password)) {
+        setUnlocked(true);
+      } else {
+        setError('Incorrect password.');
+      }
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800 flex items-center justify-center text-white p-4">
+      <div className="max-w-sm w-full text-center">
+        <div className="inline-flex items-center justify-center w-14 h-14 bg-blue-600 rounded-2xl mb-6">
+          {needsName ? <UserIcon size={28} /> : access === 'password_required' ? <Lock size={28} /> : <Ban size={28} />}
         </div>
+        {needsName ? (
+          <>
+            <h1 className="text-xl font-bold mb-2">{project!.title}</h1>
+            <p className="text-sm text-gray-400 mb-6">Enter your name so the editor knows who left each comment.</p>
+            <div className="space-y-2">
+              <input 
+                autoFocus
+                placeholder="Your name"
+                value={guestName}
+                onChange={(e) => setGuestName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleGuestContinue()}
+                className="w-full rounded-lg px-3 py-2 text-sm text-gray-900"
+              />
+              <input 
+                type="email"
+                placeholder="Email (optional)"
+                value={guestEmail}
+                onChange={(e) => setGuestEmail(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleGuestContinue()}
+                className="w-full rounded-lg px-3 py-2 text-sm text-gray-900"
+              />
+              <Button onClick={handleGuestContinue} disabled={!guestName.trim()} className="w-full justify-center">Continue</Button>
+            </div>
+          </>
+        ) : access === 'password_required' ? (
+          <>
+            <h1 className="text-xl font-bold mb-2">{project!.title}</h1>
+            <p className="text-sm text-gray-400 mb-6">This review is password protected.</p>
+            <div className="flex gap-2">
+              <input 
+                type="password" 
+                autoFocus
+                placeholder="Password"
+                value={password}
+                onChange={(e) => { setPassword(e.target.value); setError(""); }}
+                onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+                className="flex-1 rounded-lg px-3 py-2 text-sm text-gray-900"
+              />
+              <Button onClick={handleUnlock} disabled={!password}>Open</Button>
+            </div>
+            {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+          </>
+        ) : (
+          <p className="text-gray-300">{accessError}</p>
+        )}
       </div>
     </div>
   );
 };
 
+// --- Page: Join Project (Invite Link) ---------------------------------------
+
+const JoinProject = ({ projectId, token, onNavigate }: { projectId: string, token: string, onNavigate: (route: Route) => void }) => {
+  const { user } = useContext(AuthContext);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!user) return;
+    DatabaseService.acceptInvite(user, projectId, token)
+      .then(() => onNavigate({ page: 'project', projectId }))
+      .catch(e => setError((e as Error).message));
+  }, [user, projectId, token]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800 flex flex-col items-center justify-center gap-4 text-white p-4">
+      {error ? (
+        <>
+          <Ban size={28} />
+          <p className="text-gray-300">{error}</p>
+          <Button variant="secondary" onClick={() => onNavigate({ page: 'dashboard' })}>Go to Dashboard</Button>
+        </>
+      ) : (
+        <Loader2 className="animate-spin" />
+      )}
+    </div>
+  );
+};
+
 // --- Main Application Router ------------------------------------------------
 
+type Route =
+  | { page: 'landing' }
+  | { page: 'dashboard' }
+  | { page: 'review'; publicId: string } // Guest access through a share link
+  | { page: 'project'; projectId: string } // Editor access
+  | { page: 'join'; projectId: string; token: string }; // Invite link
+
+const parseRoute = (pathname: string): Route => {
+  const [, section, id, token] = pathname.split('/');
+  if (section === 'dashboard') return { page: 'dashboard' };
+  if (section === 'review' && id) return { page: 'review', publicId: decodeURIComponent(id) };
+  if (section === 'project' && id) return { page: 'project', projectId: decodeURIComponent(id) };
+  if (section === 'join' && id && token) return { page: 'join', projectId: decodeURIComponent(id), token: decodeURIComponent(token) };
+  return { page: 'landing' };
+};
+
+const routeToPath = (route: Route) => {
+  switch (route.page) {
+    case 'dashboard': return '/dashboard';
+    case 'review': return `/review/${encodeURIComponent(route.publicId)}`;
+    case 'project': return `/project/${encodeURIComponent(route.projectId)}`;
+    case 'join': return `/join/${encodeURIComponent(route.projectId)}/${encodeURIComponent(route.token)}`;
+    default: return '/';
+  }
+};
+
+const useRouter = () => {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.pathname));
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseRoute(window.location.pathname));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((next: Route) => {
+    const path = routeToPath(next);
+    if (path !== window.location.pathname) window.history.pushState(null, '', path);
+    setRoute(next);
+  }, []);
+
+  return { route, navigate };
+};
+
 const App = () => {
   const { user } = useContext(AuthContext);
-  const [route, setRoute] = useState<{ page: 'landing' | 'dashboard' | 'review', projectId?: string, isEditor?: boolean }>({ 
-    page: 'landing' 
-  });
+  const { route, navigate } = useRouter();
+  const [emailMode, setEmailMode] = useState(false);
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [loginError, setLoginError] = useState("");
 
-  const handleLogin = async (loginFn: () => void) => {
-    await loginFn();
-    setRoute({ page: 'dashboard' });
+  // Editor routes need a session; deep links land on the login screen and
+  // continue to the requested page once the session starts.
+  const needsLogin = !user && (route.page === 'dashboard' || route.page === 'project' || route.page === 'join');
+
+  const handleLogin = async (loginFn: () => Promise<void>) => {
+    setLoginError("");
+    try {
+      await loginFn();
+    } catch (e) {
+      setLoginError((e as Error).message);
+      return;
+    }
+    if (route.page === 'landing') navigate({ page: 'dashboard' });
   };
 
   let content;
-  if (route.page === 'landing') {
+  if (route.page === 'landing' || needsLogin) {
     content = (
       <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800 flex items-center justify-center text-white p-4">
         <div className="max-w-xl text-center">
@@ -842,7 +7671,7 @@ const App = () => {
           </p>
           
           <AuthContext.Consumer>
-            {({ login }) => (
+            {({ login, loginWithEmail }) => (
               <div className="flex flex-col gap-3 max-w-xs mx-auto">
                 <button 
                   onClick={() => handleLogin(login)}
@@ -850,9 +7679,38 @@ const App = () => {
                 >
                   Start Session (No Login)
                 </button>
+
+                {emailMode ? (
+                  <div className="flex flex-col gap-2">
+                    <input 
+                      type="email"
+                      autoFocus
+                      placeholder="Email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      className="rounded-lg px-3 py-2 text-sm text-gray-900"
+                    />
+                    <input 
+                      type="password"
+                      placeholder="Password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleLogin(() => loginWithEmail(email, password))}
+                      className="rounded-lg px-3 py-2 text-sm text-gray-900"
+                    />
+                    {loginError && <p className="text-sm text-red-400">{loginError}</p>}
+                    <Button onClick={() => handleLogin(() => loginWithEmail(email, password))} disabled={!email || !password} className="justify-center">
+                      Sign In
+                    </Button>
+                  </div>
+                ) : (
+                  <button onClick={() => setEmailMode(true)} className="text-sm text-gray-300 hover:text-white">
+                    Sign in with email
+                  </button>
+                )}
                 
                 <button 
-                   onClick={() => setRoute({ page: 'review', projectId: 'proj_1', isEditor: false })}
+                   onClick={() => navigate({ page: 'review', publicId: SEED_DATA.project.publicId })}
                    className="text-sm text-gray-400 hover:text-white mt-4 underline underline-offset-4"
                 >
                   Demo: View as Client
@@ -863,19 +7721,24 @@ const App = () => {
         </div>
       </div>
     );
-  } else if (route.page === 'dashboard' && user) {
-    content = <Dashboard onNavigate={setRoute} />;
-  } else if (route.page === 'review' && route.projectId) {
+  } else if (route.page === 'dashboard') {
+    content = <Dashboard onNavigate={navigate} />;
+  } else if (route.page === 'join') {
+    content = <JoinProject projectId={route.projectId} token={route.token} onNavigate={navigate} />;
+  } else if (route.page === 'project') {
     content = (
       <ReviewPage 
         projectId={route.projectId} 
-        isEditor={!!route.isEditor} 
-        onBack={() => setRoute({ page: user ? 'dashboard' : 'landing' })} 
+        onBack={() => navigate({ page: 'dashboard' })} 
       />
     );
   } else {
-    setRoute({ page: 'landing' });
-    content = null;
+    content = (
+      <SharedReview 
+        publicId={route.publicId} 
+        onExit={() => navigate(user ? { page: 'dashboard' } : { page: 'landing' })} 
+      />
+    );
   }
 
   return content;
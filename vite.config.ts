@@ -1,18 +1,363 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import net from 'net';
+import crypto from 'crypto';
+import type { Duplex } from 'stream';
+import type { IncomingMessage } from 'http';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+const mailAddress = (value: string) => value.match(/<([^>]+)>/)?.[1] || value.trim();
+
+// RFC 2047 encoded-word, only when the header isn't plain ASCII.
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+
+// Minimal SMTP client: no AUTH and no STARTTLS, so point it at a local sink
+// (Mailpit, MailHog) or a relay on a trusted network.
+const sendMail = (host: string, port: number, message: MailMessage) => new Promise<void>((resolve, reject) => {
+  const body = message.text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+  const data = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    body,
+    '.',
+  ].join('\r\n');
+  // Each command with the reply code it expects; the first entry is the greeting.
+  const steps: [string | null, number][] = [
+    [null, 220],
+    ['EHLO localhost', 250],
+    [`MAIL FROM:<${mailAddress(message.from)}>`, 250],
+    [`RCPT TO:<${mailAddress(message.to)}>`, 250],
+    ['DATA', 354],
+    [data, 250],
+    ['QUIT', 221],
+  ];
+
+  const socket = net.createConnection({ host, port });
+  socket.setTimeout(10000, () => socket.destroy(new Error(`SMTP server at ${host}:${port} timed out`)));
+  socket.on('error', reject);
+  let buffer = '';
+  let step = 0;
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8');
+    const lines = buffer.split('\r\n');
+    buffer = lines.pop()!; // Incomplete line, if any
+    // A reply ends on a line with a space after the code ("250 OK", not "250-SIZE").
+    for (const reply of lines.filter(line => /^\d{3}( |$)/.test(line))) {
+      if (Number(reply.slice(0, 3)) !== steps[step][1]) {
+        socket.destroy(new Error(`SMTP error: ${reply}`));
+        return;
+      }
+      step++;
+      if (step === steps.length) {
+        socket.end();
+        resolve();
+        return;
+      }
+      socket.write(`${steps[step][0]}\r\n`);
+    }
+  });
+});
+
+// Browsers always send Origin on a POST and on WebSocket handshakes.
+const isSameOrigin = (req: IncomingMessage) => {
+  try {
+    return !!req.headers.origin && new URL(req.headers.origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+};
+
+// Requiring JSON from our own origin keeps other web pages out: a cross-site
+// form can only post text/plain or urlencoded bodies, and fetch with JSON
+// would carry their Origin.
+const isSameOriginJson = (req: IncomingMessage) =>
+  isSameOrigin(req) && (req.headers['content-type'] || '').startsWith('application/json');
+
+// Entries are full addresses or '@domain' for a whole domain.
+const parseRecipientList = (value: string) => value.split(',').map(entry => entry.trim().toLowerCase()).filter(Boolean);
+
+const isAllowedRecipient = (to: string, allowed: string[]) => {
+  const address = to.toLowerCase();
+  return allowed.some(entry => entry.startsWith('@') ? address.endsWith(entry) : address === entry);
+};
+
+// POST { to, subject, text } to `route` to send a plain-text email. There is
+// no server-side sign-in to tie a request to an account, so the relay only
+// sends to the addresses in `allowedRecipients` and sends nothing without them.
+const mailRelay = (route: string, host: string, port: number, from: string, allowedRecipients: string[]): Plugin => ({
+  name: 'mail-relay',
+  configureServer(server) {
+    server.middlewares.use(route, (req, res) => {
+      if (req.method !== 'POST') {
+        res.statusCode = 405;
+        res.end();
+        return;
+      }
+      if (!isSameOriginJson(req)) {
+        res.statusCode = 403;
+        res.end('Same-origin JSON requests only');
+        return;
+      }
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', async () => {
+        let message: Partial<MailMessage>;
+        try {
+          message = JSON.parse(raw);
+        } catch {
+          message = {};
+        }
+        const { to, subject, text } = message;
+        if (typeof to !== 'string' || !/^[^\s@<>]+@[^\s@<>]+$/.test(to)) {
+          res.statusCode = 400;
+          res.end('Invalid recipient');
+          return;
+        }
+        if (!isAllowedRecipient(to, allowedRecipients)) {
+          res.statusCode = 403;
+          res.end(allowedRecipients.length ? `${to} is not in MAIL_ALLOWED_RECIPIENTS` : 'Set MAIL_ALLOWED_RECIPIENTS to send email');
+          return;
+        }
+        try {
+          // No line breaks in the subject, or it could add headers of its own.
+          await sendMail(host, port, { from, to, subject: String(subject || '').replace(/[\r\n]+/g, ' '), text: String(text || '') });
+          res.statusCode = 204;
+          res.end();
+        } catch (e) {
+          res.statusCode = 502;
+          res.end((e as Error).message);
+        }
+      });
+    });
+  },
+});
+
+// Runs ahead of the AI proxy so the key is only added to requests within
+// budget. The count is per server and resets when it restarts or the UTC day
+// changes; the browser's own counter is only for display.
+const aiBudget = (route: string, dailyLimit: number, maxRequestBytes: number): Plugin => ({
+  name: 'ai-budget',
+  configureServer(server) {
+    let day = '';
+    let used = 0;
+    server.middlewares.use(route, (req, res, next) => {
+      if (req.method !== 'POST') {
+        res.statusCode = 405;
+        res.end();
+        return;
+      }
+      const length = Number(req.headers['content-length']);
+      if (!req.headers['content-length'] || !Number.isFinite(length)) {
+        res.statusCode = 411;
+        res.end('AI requests need a Content-Length');
+        return;
+      }
+      if (length > maxRequestBytes) {
+        res.statusCode = 413;
+        res.end(`AI requests are limited to ${maxRequestBytes} bytes`);
+        return;
+      }
+      const today = new Date().toISOString().slice(0, 10);
+      if (day !== today) {
+        day = today;
+        used = 0;
+      }
+      if (used >= dailyLimit) {
+        res.statusCode = 429;
+        res.end(`Daily AI limit of ${dailyLimit} requests reached. Cached results still work.`);
+        return;
+      }
+      used++;
+      next();
+    });
+  },
+});
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const LIVE_MAX_MESSAGE = 1024 * 1024;
+
+// Server frames are never masked; clients' always are.
+const encodeFrame = (opcode: number, payload: Buffer) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Reads complete frames off the front of `buffer`. Returns what's left over.
+const decodeFrames = (buffer: Buffer, onFrame: (fin: boolean, opcode: number, payload: Buffer) => void) => {
+  while (buffer.length >= 2) {
+    const fin = (buffer[0] & 0x80) !== 0;
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buffer.length < 4) break;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) break;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    if (length > LIVE_MAX_MESSAGE) throw new Error('Message too large');
+    const mask = masked ? buffer.subarray(offset, offset + 4) : null;
+    if (mask) offset += 4;
+    if (buffer.length < offset + length) break;
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (mask) payload.forEach((byte, i) => { payload[i] = byte ^ mask[i % 4]; });
+    onFrame(fin, opcode, payload);
+    buffer = buffer.subarray(offset + length);
+  }
+  return buffer;
+};
+
+// Rooms are the random ids projects hand out to people who can open them.
+// The relay cannot read projects, so an unguessable room is the access check.
+const LIVE_ROOM_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// WebSocket relay for live review sessions: every text message a client sends
+// goes to the other clients in the same `?room=`. It keeps no state and only
+// takes connections from the app's own pages, for well-formed rooms.
+const liveRelay = (route: string): Plugin => ({
+  name: 'live-relay',
+  configureServer(server) {
+    const rooms = new Map<string, Set<Duplex>>();
+    server.httpServer?.on('upgrade', (req, socket: Duplex) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const key = req.headers['sec-websocket-key'];
+      const room = url.searchParams.get('room');
+      if (url.pathname !== route) return; // Vite's HMR socket, or someone else's
+      if (!isSameOrigin(req)) {
+        socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+        return;
+      }
+      if (typeof key !== 'string' || !room || !LIVE_ROOM_PATTERN.test(room)) {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+      }
+      const accept = crypto.createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+      socket.write([
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '', '',
+      ].join('\r\n'));
+
+      const peers = rooms.get(room) || new Set<Duplex>();
+      rooms.set(room, peers);
+      peers.add(socket);
+      const leave = () => {
+        peers.delete(socket);
+        if (peers.size === 0) rooms.delete(room);
+      };
+
+      let buffer = Buffer.alloc(0);
+      let fragments: Buffer[] = [];
+      socket.on('data', (chunk: Buffer) => {
+        try {
+          buffer = decodeFrames(Buffer.concat([buffer, chunk]), (fin, opcode, payload) => {
+            if (opcode === 0x8) {
+              socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+            } else if (opcode === 0x9) {
+              socket.write(encodeFrame(0xa, payload));
+            } else if (opcode === 0x1 || opcode === 0x0) {
+              fragments.push(payload);
+              if (!fin) return;
+              const frame = encodeFrame(0x1, Buffer.concat(fragments));
+              fragments = [];
+              peers.forEach(peer => { if (peer !== socket) peer.write(frame); });
+            }
+          });
+        } catch {
+          socket.destroy();
+        }
+      });
+      socket.on('close', leave);
+      socket.on('error', leave);
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // AI requests go through this proxy, which adds the API keys on the server
+    // side. Keys are deliberately not in `define`, so they never reach the bundle.
+    const aiProxyPath = env.AI_PROXY_URL || '/api/ai';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          [`${aiProxyPath}/gemini`]: {
+            target: 'https://generativelanguage.googleapis.com',
+            changeOrigin: true,
+            rewrite: (p) => p.slice(`${aiProxyPath}/gemini`.length),
+            headers: { 'x-goog-api-key': env.GEMINI_API_KEY || '' },
+          },
+          [`${aiProxyPath}/openai`]: {
+            target: env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+            changeOrigin: true,
+            rewrite: (p) => p.slice(`${aiProxyPath}/openai`.length),
+            headers: env.OPENAI_API_KEY ? { Authorization: `Bearer ${env.OPENAI_API_KEY}` } : {},
+          },
+        },
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        aiBudget(
+          aiProxyPath,
+          Number(env.AI_DAILY_REQUEST_LIMIT) || 50,
+          Number(env.AI_MAX_REQUEST_BYTES) || 4 * 1024 * 1024,
+        ),
+        mailRelay(
+          env.MAIL_PROXY_URL || '/api/mail',
+          env.SMTP_HOST || 'localhost',
+          Number(env.SMTP_PORT || 1025),
+          env.SMTP_FROM || 'CreatorFeedback <noreply@localhost>',
+          parseRecipientList(env.MAIL_ALLOWED_RECIPIENTS || ''),
+        ),
+        liveRelay(env.LIVE_RELAY_URL || '/api/live'),
+      ],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.DB_BACKEND': JSON.stringify(env.DB_BACKEND),
+        'process.env.FIRESTORE_EMULATOR_HOST': JSON.stringify(env.FIRESTORE_EMULATOR_HOST),
+        'process.env.FIREBASE_PROJECT_ID': JSON.stringify(env.FIREBASE_PROJECT_ID),
+        'process.env.UPLOAD_BACKEND': JSON.stringify(env.UPLOAD_BACKEND),
+        'process.env.S3_ENDPOINT': JSON.stringify(env.S3_ENDPOINT),
+        'process.env.S3_BUCKET': JSON.stringify(env.S3_BUCKET),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_MODEL': JSON.stringify(env.AI_MODEL),
+        'process.env.AI_PROXY_URL': JSON.stringify(env.AI_PROXY_URL),
+        'process.env.AI_MAX_OUTPUT_TOKENS': JSON.stringify(env.AI_MAX_OUTPUT_TOKENS),
+        'process.env.AI_DAILY_REQUEST_LIMIT': JSON.stringify(env.AI_DAILY_REQUEST_LIMIT),
+        'process.env.MAIL_PROXY_URL': JSON.stringify(env.MAIL_PROXY_URL),
+        'process.env.LIVE_RELAY_URL': JSON.stringify(env.LIVE_RELAY_URL)
       },
       resolve: {
         alias: {